@@ -224,6 +224,120 @@ contract Verifier is Constants {
         );
     }
 
+    /*
+     * @return True if and only if _zCoeffs are the coefficients of the monic
+     *         polynominal of degree _indices.length which intersects y=0 at
+     *         each index, and _zCommit is its commitment in G2. As the EVM
+     *         cannot perform arithmetic in G2, _zCommit is checked against
+     *         the commitment to _zCoeffs in G1 with the pairing check
+     *         e(-commit(zPoly), G2.g) * e(G1.g, zCommit) == 1
+     * @param _indices The x-values.
+     * @param _zCoeffs The coefficients of the zero polynominal.
+     * @param _zCommit The commitment in G2 to the zero polynominal.
+     */
+    function isZeroPolyCommitment(
+        uint256[] memory _indices,
+        uint256[] memory _zCoeffs,
+        Pairing.G2Point memory _zCommit
+    ) internal view returns (bool) {
+        require(_zCoeffs.length == _indices.length + 1, "Verifier.verifyMultiG1: _zCoeffs has the wrong length");
+        require(_zCoeffs[_indices.length] == 1, "Verifier.verifyMultiG1: _zCoeffs is not monic");
+        require(_zCommit.X[0] < BABYJUB_P, "Verifier.verifyMultiG1: _zCommit.X[0] is out of range");
+        require(_zCommit.X[1] < BABYJUB_P, "Verifier.verifyMultiG1: _zCommit.X[1] is out of range");
+        require(_zCommit.Y[0] < BABYJUB_P, "Verifier.verifyMultiG1: _zCommit.Y[0] is out of range");
+        require(_zCommit.Y[1] < BABYJUB_P, "Verifier.verifyMultiG1: _zCommit.Y[1] is out of range");
+
+        for (uint256 i = 0; i < _zCoeffs.length; i ++) {
+            require(_zCoeffs[i] < BABYJUB_P, "Verifier.verifyMultiG1: a _zCoeffs value is out of range");
+        }
+
+        for (uint256 i = 0; i < _indices.length; i ++) {
+            require(evalPolyAt(_zCoeffs, _indices[i]) == 0, "Verifier.verifyMultiG1: invalid _zCoeffs");
+        }
+
+        return Pairing.pairing(
+            Pairing.negate(commit(_zCoeffs)),
+            g2Generator,
+            SRS_G1_0,
+            _zCommit
+        );
+    }
+
+    /*
+     * Verifies the evaluation of multiple points of a polynominal using the
+     * KZG commitment scheme, where the proof is in G1.
+     *    - p(X) is a polynominal
+     *    - commitment = commit(p)
+     *    - For each y in _values and each x in _indices, y = p(x)
+     *    - proof = genMultiProofG1(p, _indices)
+     * Returns true if and only if the following holds, and returns false
+     * otherwise:
+     *     e(-proof, zCommit) * e(commitment - commit(iPoly), g) == 1
+     * As the EVM cannot perform arithmetic in G2, the caller also passes the
+     * coefficients of the zero polynominal, which are checked against
+     * _indices, and _zCommit is checked against them with
+     * isZeroPolyCommitment(). Otherwise, any proof could be made to verify
+     * with a suitable _zCommit.
+     * @param _commitment The polynominal commitment.
+     * @param _proof The proof.
+     * @param _indices The x-values at which to evaluate the polynominal.
+     * @param _values The evaluation of the polynominal at each index.
+     * @param _iCoeffs The coefficients of a polynominal which interpolates
+     *                 each index and corresponding y-value.
+     * @param _zCoeffs The coefficients of the monic polynominal which
+     *                 intersects y=0 for each index.
+     * @param _zCommit The commitment in G2 to that polynominal.
+     */
+    function verifyMultiG1(
+        Pairing.G1Point memory _commitment,
+        Pairing.G1Point memory _proof,
+        uint256[] memory _indices,
+        uint256[] memory _values,
+        uint256[] memory _iCoeffs,
+        uint256[] memory _zCoeffs,
+        Pairing.G2Point memory _zCommit
+    ) public view returns (bool) {
+        // Perform range checks
+        require(_commitment.X < BABYJUB_P, "Verifier.verifyMultiG1: _commitment.X is out of range");
+        require(_commitment.Y < BABYJUB_P, "Verifier.verifyMultiG1: _commitment.Y is out of range");
+        require(_proof.X < BABYJUB_P, "Verifier.verifyMultiG1: _proof.X is out of range");
+        require(_proof.Y < BABYJUB_P, "Verifier.verifyMultiG1: _proof.Y is out of range");
+        require(_values.length == _indices.length, "Verifier.verifyMultiG1: _values and _indices have different lengths");
+
+        for (uint256 i = 0; i < _iCoeffs.length; i ++) {
+            require(_iCoeffs[i] < BABYJUB_P, "Verifier.verifyMultiG1: an _iCoeffs value is out of range");
+        }
+
+        // Check whether _iCoeffs is valid
+        for (uint256 i = 0; i < _indices.length; i ++) {
+            require(_indices[i] < BABYJUB_P, "Verifier.verifyMultiG1: an index is out of range");
+            require(_values[i] < BABYJUB_P, "Verifier.verifyMultiG1: a value is out of range");
+
+            uint256 iEval = evalPolyAt(_iCoeffs, _indices[i]);
+            require(iEval == _values[i], "Verifier.verifyMultiG1: invalid _iCoeffs");
+        }
+
+        // Check that _zCommit is the commitment to the zero polynominal
+        if (!isZeroPolyCommitment(_indices, _zCoeffs, _zCommit)) {
+            return false;
+        }
+
+        // Compute commitment - commit(iPoly)
+        Pairing.G1Point memory commitmentMinusICommit =
+            Pairing.plus(
+                _commitment,
+                Pairing.negate(commit(_iCoeffs))
+            );
+
+        // Perform the pairing check
+        return Pairing.pairing(
+            Pairing.negate(_proof),
+            _zCommit,
+            commitmentMinusICommit,
+            g2Generator
+        );
+    }
+
     /*
     // Uncomment to perform gas benchmarks
     function commitBenchmark(
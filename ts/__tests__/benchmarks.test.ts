@@ -0,0 +1,60 @@
+jest.setTimeout(1800000)
+import {
+    genBabyJubField,
+    commit,
+} from '../'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+
+const srsg1DataRaw = require('@libkzg/taug1_65536.json')
+
+const field = genBabyJubField()
+
+/*
+ * Commits to a polynomial the way polyCommit() used to, with one scalar
+ * multiplication and one affine normalisation per coefficient.
+ */
+const naiveCommit = (
+    coefficients: bigint[],
+) => {
+    let result = G1.zero
+    for (let i = 0; i < coefficients.length; i ++) {
+        const point = [
+            BigInt(srsg1DataRaw[i][0]),
+            BigInt(srsg1DataRaw[i][1]),
+            BigInt(1),
+        ]
+        result = G1.affine(G1.add(result, G1.mulScalar(point, coefficients[i])))
+    }
+    return result
+}
+
+describe('commit() benchmarks', () => {
+    const degrees = [16, 64, 256, 1024, 4096, 16384, 65536]
+
+    for (const degree of degrees) {
+        it(`commit to a polynomial with ${degree} coefficients`, () => {
+            const coefficients: bigint[] = []
+            for (let i = 0; i < degree; i ++) {
+                coefficients.push(field.rand())
+            }
+
+            let start = Date.now()
+            const expected = naiveCommit(coefficients)
+            const naiveTime = Date.now() - start
+
+            start = Date.now()
+            const commitment = commit(coefficients)
+            const msmTime = Date.now() - start
+
+            console.log(
+                `${degree} coefficients: naive ${naiveTime} ms, ` +
+                `MSM ${msmTime} ms (${(naiveTime / msmTime).toFixed(2)}x)`
+            )
+
+            expect(commitment[0]).toEqual(expected[0])
+            expect(commitment[1]).toEqual(expected[1])
+        })
+    }
+})
@@ -0,0 +1,159 @@
+import {
+    FIELD_SIZE,
+    commit,
+    genCoefficients,
+    genMultiProof,
+    InvalidArgumentError,
+} from '../'
+
+import {
+    BYTES_PER_ELEMENT,
+    encodeBytes,
+    decodeBytes,
+    commitBytes,
+    proveBytesRange,
+    verifyBytesRange,
+} from '../bytes'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+
+/*
+ * @return length bytes which count up from 1.
+ */
+const genData = (length: number): Buffer => {
+    const data = Buffer.alloc(length)
+    for (let i = 0; i < length; i ++) {
+        data[i] = (i + 1) % 256
+    }
+    return data
+}
+
+describe('Byte encoding', () => {
+    describe('encodeBytes and decodeBytes', () => {
+        it('should encode empty data as its length only', () => {
+            expect(encodeBytes(Buffer.alloc(0))).toEqual([BigInt(0)])
+            expect(decodeBytes([BigInt(0)])).toEqual(Buffer.alloc(0))
+        })
+
+        it('should pad the last element with zeros on the right', () => {
+            const elements = encodeBytes(Buffer.from([0xab]))
+            expect(elements).toEqual([
+                BigInt(1),
+                BigInt('0xab' + '00'.repeat(BYTES_PER_ELEMENT - 1)),
+            ])
+        })
+
+        it('should round-trip data of lengths around multiples of 31', () => {
+            for (const length of [1, 30, 31, 32, 61, 62, 63, 100]) {
+                const data = genData(length)
+                const elements = encodeBytes(data)
+                expect(elements.length).toEqual(1 + Math.ceil(length / BYTES_PER_ELEMENT))
+                for (const e of elements) {
+                    expect(e < FIELD_SIZE).toBeTruthy()
+                }
+                expect(decodeBytes(elements)).toEqual(data)
+            }
+        })
+
+        it('should round-trip data which ends in zeros', () => {
+            const data = Buffer.from([1, 0, 0, 0])
+            expect(decodeBytes(encodeBytes(data))).toEqual(data)
+        })
+
+        it('should not decode elements which encodeBytes() cannot output', () => {
+            const elements = encodeBytes(genData(40))
+            expect(() => decodeBytes([])).toThrow(InvalidArgumentError)
+            expect(() => decodeBytes([BigInt(63), ...elements.slice(1)])).toThrow(InvalidArgumentError)
+            expect(() => decodeBytes([BigInt(31), ...elements.slice(1)])).toThrow(InvalidArgumentError)
+            expect(() => decodeBytes([BigInt(40), elements[1], elements[2] + BigInt(1)])).toThrow(InvalidArgumentError)
+            expect(() => decodeBytes([BigInt(1), FIELD_SIZE - BigInt(1)])).toThrow(InvalidArgumentError)
+        })
+    })
+
+    describe('commitBytes', () => {
+        it('should commit to the polynominal which evaluates to the encoded elements', () => {
+            const data = genData(40)
+            const expected = commit(genCoefficients(encodeBytes(data)))
+            expect(G1.eq(commitBytes(data), expected)).toBeTruthy()
+        })
+
+        it('should commit to empty data', () => {
+            expect(G1.eq(commitBytes(Buffer.alloc(0)), G1.zero)).toBeTruthy()
+        })
+
+        it('should give different commitments to data with and without trailing zeros', () => {
+            const a = commitBytes(Buffer.from([1]))
+            const b = commitBytes(Buffer.from([1, 0]))
+            expect(G1.eq(a, b)).toBeFalsy()
+        })
+    })
+
+    describe('proveBytesRange and verifyBytesRange', () => {
+        const data = genData(70)
+        const commitment = commitBytes(data)
+
+        it('should prove a range within one element', () => {
+            const proof = proveBytesRange(data, 3, 5)
+            expect(proof.data).toEqual(data.slice(3, 8))
+            expect(proof.indices).toEqual([0, 1])
+            expect(proof.values[0]).toEqual(BigInt(data.length))
+            expect(verifyBytesRange(commitment, proof)).toBeTruthy()
+        })
+
+        it('should prove a range across elements', () => {
+            const proof = proveBytesRange(data, 30, 35)
+            expect(proof.indices).toEqual([0, 1, 2, 3])
+            expect(verifyBytesRange(commitment, proof)).toBeTruthy()
+        })
+
+        it('should prove the whole data', () => {
+            const proof = proveBytesRange(data, 0, data.length)
+            expect(verifyBytesRange(commitment, proof)).toBeTruthy()
+        })
+
+        it('should not verify a proof of the wrong bytes', () => {
+            const proof = proveBytesRange(data, 30, 5)
+            const wrongData = Buffer.from(proof.data)
+            wrongData[0] ^= 1
+            expect(verifyBytesRange(commitment, { ...proof, data: wrongData })).toBeFalsy()
+            expect(verifyBytesRange(commitment, { ...proof, byteOffset: 31 })).toBeFalsy()
+            expect(verifyBytesRange(commitment, { ...proof, indices: [0, 2, 3] })).toBeFalsy()
+            expect(verifyBytesRange(commitBytes(genData(71)), proof)).toBeFalsy()
+        })
+
+        it('should not verify a range past the end of the data', () => {
+            // The 25 bytes at offset 0 of 5 bytes of data, padded with the
+            // zeros of the last element
+            const short = genData(5)
+            const elements = encodeBytes(short)
+            const padded = Buffer.concat([short, Buffer.alloc(20)])
+            const coefficients = [...genCoefficients(elements), BigInt(0)]
+            const forged = {
+                byteOffset: 0,
+                data: padded,
+                indices: [0, 1],
+                values: elements,
+                proof: genMultiProof(coefficients, [0, 1]),
+            }
+            expect(verifyBytesRange(commitBytes(short), forged)).toBeFalsy()
+
+            // A proof which does not open the length
+            const unbounded = {
+                ...forged,
+                indices: [1],
+                values: [elements[1]],
+                proof: genMultiProof(coefficients, [1]),
+            }
+            expect(verifyBytesRange(commitBytes(short), unbounded)).toBeFalsy()
+            expect(verifyBytesRange(commitBytes(short), { ...unbounded, data: short })).toBeFalsy()
+        })
+
+        it('should throw for a range outside of the data', () => {
+            expect(() => proveBytesRange(data, 0, 0)).toThrow(InvalidArgumentError)
+            expect(() => proveBytesRange(data, -1, 2)).toThrow(InvalidArgumentError)
+            expect(() => proveBytesRange(data, 60, 11)).toThrow(InvalidArgumentError)
+            expect(() => proveBytesRange(Buffer.alloc(0), 0, 1)).toThrow(InvalidArgumentError)
+        })
+    })
+})
@@ -0,0 +1,131 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import {
+    commit,
+    genProof,
+    verify,
+    loadJsonSRS,
+    HIDING_GENERATOR,
+    genBlindingPolynomial,
+    commitHiding,
+    genHidingProof,
+    verifyHiding,
+} from '../'
+
+import {
+    genCeremony,
+    contribute,
+    verifyContribution,
+    verifyCeremony,
+    ceremonySRS,
+    ceremonyHidingSRS,
+    exportCeremony,
+    importCeremony,
+    writeCeremonySRS,
+} from '../ceremony'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+const G2 = bn128.G2
+
+const coefficients = [5, 0, 2, 1].map(BigInt)
+
+describe('Powers of tau ceremony', () => {
+    const initial = genCeremony(8)
+    const first = contribute(initial, BigInt(1234))
+    const second = contribute(first)
+
+    it('contribute() should multiply tau by the secret', () => {
+        expect(initial.g1.length).toEqual(8)
+        expect(initial.g2.length).toEqual(2)
+        expect(initial.contributions.length).toEqual(0)
+
+        const expected = G1.mulScalar(G1.g, BigInt(1234 * 1234 * 1234))
+        expect(G1.eq(first.g1[3], expected)).toBeTruthy()
+        expect(G2.eq(first.g2[1], G2.mulScalar(G2.g, BigInt(1234)))).toBeTruthy()
+        expect(G1.eq(first.contributions[0].tauG1, first.g1[1])).toBeTruthy()
+
+        // The original ceremony is not modified
+        expect(G1.eq(initial.g1[1], G1.g)).toBeTruthy()
+    })
+
+    it('verifyContribution() should accept each contribution', () => {
+        expect(verifyContribution(initial, first)).toBeTruthy()
+        expect(verifyContribution(first, second)).toBeTruthy()
+        expect(verifyContribution(initial, second)).toBeFalsy()
+    })
+
+    it('verifyCeremony() should accept a contribution chain', () => {
+        expect(verifyCeremony(initial)).toBeFalsy()
+        expect(verifyCeremony(first)).toBeTruthy()
+        expect(verifyCeremony(second)).toBeTruthy()
+    })
+
+    it('verifyCeremony() should reject an invalid proof of knowledge', () => {
+        const proof = second.contributions[1].proof
+        const forged = {
+            ...second,
+            contributions: [
+                second.contributions[0],
+                {
+                    ...second.contributions[1],
+                    proof: { ...proof, response: proof.response + BigInt(1) },
+                },
+            ],
+        }
+        expect(verifyCeremony(forged)).toBeFalsy()
+    })
+
+    it('verifyCeremony() should reject points which do not match the chain', () => {
+        // A valid SRS for another tau
+        const other = contribute(initial, BigInt(5678))
+        expect(verifyCeremony({ ...other, contributions: second.contributions })).toBeFalsy()
+        expect(verifyCeremony({ ...second, g1: [...second.g1.slice(0, 7), G1.g] })).toBeFalsy()
+    })
+
+    it('importCeremony() should read the output of exportCeremony()', () => {
+        const imported = importCeremony(exportCeremony(second))
+        expect(imported.contributions.length).toEqual(2)
+        expect(verifyCeremony(imported)).toBeTruthy()
+        expect(verifyContribution(first, imported)).toBeTruthy()
+    })
+
+    it('the SRS should work with the proof functions', () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'libkzg-ceremony-'))
+        const g1Path = path.join(tmpDir, 'taug1.json')
+        const g2Path = path.join(tmpDir, 'taug2.json')
+        try {
+            writeCeremonySRS(second, g1Path, g2Path)
+            const g1 = JSON.parse(fs.readFileSync(g1Path).toString())
+            expect(g1.length).toEqual(8)
+            expect(g1[0]).toEqual(['0x1', '0x2'])
+
+            for (const srs of [ceremonySRS(second), loadJsonSRS(g1Path, g2Path)]) {
+                const commitment = commit(coefficients, srs)
+                const proof = genProof(coefficients, 6, undefined, undefined, srs)
+                expect(verify(commitment, proof, BigInt(6), BigInt(293), undefined, undefined, srs)).toBeTruthy()
+            }
+        } finally {
+            for (const file of fs.readdirSync(tmpDir)) {
+                fs.unlinkSync(path.join(tmpDir, file))
+            }
+            fs.rmdirSync(tmpDir)
+        }
+    })
+
+    it('should produce the points for hiding commitments', () => {
+        const hiding = contribute(contribute(genCeremony(4, 2, 4)))
+        expect(G1.eq(hiding.h[0], HIDING_GENERATOR)).toBeTruthy()
+        expect(verifyCeremony(hiding)).toBeTruthy()
+        expect(verifyCeremony(importCeremony(exportCeremony(hiding)))).toBeTruthy()
+        expect(verifyCeremony({ ...hiding, h: [...hiding.h.slice(0, 3), hiding.h[0]] })).toBeFalsy()
+
+        const srs = ceremonyHidingSRS(hiding)
+        const blinding = genBlindingPolynomial(coefficients.length)
+        const commitment = commitHiding(coefficients, blinding, srs)
+        const proof = genHidingProof(coefficients, blinding, 6, srs)
+        expect(verifyHiding(commitment, proof, 6, BigInt(293), srs)).toBeTruthy()
+    })
+})
@@ -0,0 +1,139 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import {
+    readPpotFile,
+    readPtauFile,
+} from '../convert_ppot'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+const G2 = bn128.G2
+const F1 = bn128.F1
+
+// A ceremony of power 2 has 7 powers of tau in G1 and 4 in G2
+const power = 2
+const numG1 = 7
+const numG2 = 4
+const tau = BigInt(1234)
+
+const g1: any[] = []
+const g2: any[] = []
+let t = BigInt(1)
+for (let i = 0; i < numG1; i ++) {
+    g1.push(G1.affine(G1.mulScalar(G1.g, t)))
+    if (i < numG2) {
+        g2.push(G2.affine(G2.mulScalar(G2.g, t)))
+    }
+    t = (t * tau) % bn128.r
+}
+
+const toHex = (x: bigint) => '0x' + x.toString(16)
+const expectedG1 = g1.map((p) => [p[0], p[1]].map(toHex))
+const expectedG2 = g2.map((p) => [p[0][0], p[0][1], p[1][0], p[1][1]].map(toHex))
+
+const toBytes = (x: bigint, littleEndian = false): Buffer => {
+    const data = Buffer.from(x.toString(16).padStart(64, '0'), 'hex')
+    return littleEndian ? data.reverse() : data
+}
+
+const isGreatest = (y: bigint) => y > F1.neg(y)
+
+describe('Reading PPoT and snarkjs files', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'libkzg-ppot-'))
+    afterAll(() => {
+        for (const file of fs.readdirSync(tmpDir)) {
+            fs.unlinkSync(path.join(tmpDir, file))
+        }
+        fs.rmdirSync(tmpDir)
+    })
+
+    it('readPpotFile() should read a challenge file', () => {
+        const data = [Buffer.alloc(64, 0xab)]
+        for (const p of g1) {
+            data.push(toBytes(p[0]), toBytes(p[1]))
+        }
+        for (const p of g2) {
+            data.push(toBytes(p[0][1]), toBytes(p[0][0]), toBytes(p[1][1]), toBytes(p[1][0]))
+        }
+        // The alpha and beta powers of tau follow
+        data.push(Buffer.alloc(256))
+        const file = path.join(tmpDir, 'challenge')
+        fs.writeFileSync(file, Buffer.concat(data))
+
+        expect(readPpotFile(file, 'taug1', numG1, false, power)).toEqual(expectedG1)
+        expect(readPpotFile(file, 'taug2', numG2, false, power)).toEqual(expectedG2)
+        expect(readPpotFile(file, 'taug1', 3, false, power)).toEqual(expectedG1.slice(0, 3))
+        expect(() => readPpotFile(file, 'taug2', numG2 + 1, false, power)).toThrow()
+    })
+
+    it('readPpotFile() should read a response file', () => {
+        const data = [Buffer.alloc(64, 0xcd)]
+        for (const p of g1) {
+            const x = toBytes(p[0])
+            if (isGreatest(p[1])) {
+                x[0] |= 0x80
+            }
+            data.push(x)
+        }
+        for (const p of g2) {
+            const x = Buffer.concat([toBytes(p[0][1]), toBytes(p[0][0])])
+            const y = p[1][1] !== BigInt(0) ? p[1][1] : p[1][0]
+            if (isGreatest(y)) {
+                x[0] |= 0x80
+            }
+            data.push(x)
+        }
+        const file = path.join(tmpDir, 'response')
+        fs.writeFileSync(file, Buffer.concat(data))
+
+        expect(readPpotFile(file, 'taug1', numG1, true, power)).toEqual(expectedG1)
+        expect(readPpotFile(file, 'taug2', numG2, true, power)).toEqual(expectedG2)
+    })
+
+    it('readPtauFile() should read a snarkjs .ptau file', () => {
+        const r = (BigInt(1) << BigInt(256)) % bn128.q
+        const toMontgomery = (x: bigint) => toBytes(F1.mul(x, r), true)
+        const section = (type: number, contents: Buffer[]) => {
+            const body = Buffer.concat(contents)
+            const header = Buffer.alloc(12)
+            header.writeUInt32LE(type, 0)
+            header.writeBigUInt64LE(BigInt(body.length), 4)
+            return Buffer.concat([header, body])
+        }
+
+        const header = Buffer.alloc(12)
+        header.write('ptau', 0)
+        header.writeUInt32LE(1, 4)
+        header.writeUInt32LE(3, 8)
+
+        const n8 = Buffer.alloc(4)
+        n8.writeUInt32LE(32, 0)
+        const powers = Buffer.alloc(8)
+        powers.writeUInt32LE(power, 0)
+        powers.writeUInt32LE(power, 4)
+
+        const g1Data: Buffer[] = []
+        for (const p of g1) {
+            g1Data.push(toMontgomery(p[0]), toMontgomery(p[1]))
+        }
+        const g2Data: Buffer[] = []
+        for (const p of g2) {
+            g2Data.push(...[p[0][0], p[0][1], p[1][0], p[1][1]].map(toMontgomery))
+        }
+
+        // The sections may appear in any order
+        const file = path.join(tmpDir, 'test.ptau')
+        fs.writeFileSync(file, Buffer.concat([
+            header,
+            section(1, [n8, toBytes(bn128.q, true), powers]),
+            section(3, g2Data),
+            section(2, g1Data),
+        ]))
+
+        expect(readPtauFile(file, 'taug1', numG1)).toEqual(expectedG1)
+        expect(readPtauFile(file, 'taug2', 2)).toEqual(expectedG2.slice(0, 2))
+        expect(() => readPtauFile(file, 'taug1', numG1 + 1)).toThrow()
+    })
+})
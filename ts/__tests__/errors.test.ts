@@ -0,0 +1,233 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import {
+    FIELD_SIZE,
+    commit,
+    genProof,
+    genMultiProof,
+    genMultiProofG1,
+    verifyMultiG1,
+    genBatchProof,
+    genBatchChallenge,
+    verifyBDFG,
+    genAllProofs,
+    genDegreeProof,
+    genCoefficients,
+    genEvaluationDomain,
+    genMultiVerifierContractParams,
+    isValidPairing,
+    verifyBundle,
+    createSRS,
+    createHidingSRS,
+    loadBinarySRS,
+    defaultSRS,
+    Transcript,
+    deserializeG1,
+    KzgError,
+    InvalidArgumentError,
+    DegreeTooLargeError,
+    TooManyPointsError,
+    InvalidFieldElementError,
+    InvalidPointError,
+    SrsTooSmallError,
+    DeserializationError,
+    InvalidProofBundleError,
+} from '../'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+const G2 = bn128.G2
+
+const coefficients = [5, 0, 2, 1].map(BigInt)
+
+/*
+ * @return The error thrown by f.
+ */
+const getError = (f: () => any): any => {
+    try {
+        f()
+    } catch (e) {
+        return e
+    }
+    throw new Error('No error was thrown')
+}
+
+describe('Errors', () => {
+    it('every error should be a KzgError with its own name', () => {
+        const errors = [
+            new InvalidArgumentError('a', 'b'),
+            new DegreeTooLargeError(2, 1),
+            new TooManyPointsError(2, 1),
+            new InvalidFieldElementError(BigInt(1), FIELD_SIZE),
+            new InvalidPointError(G1.g, 'a'),
+            new SrsTooSmallError('G1', 2, 1),
+            new DeserializationError(Buffer.alloc(1), 'a'),
+            new InvalidProofBundleError('a'),
+        ]
+        for (const error of errors) {
+            expect(error).toBeInstanceOf(KzgError)
+            expect(error).toBeInstanceOf(Error)
+            expect(error.name).toEqual(error.constructor.name)
+        }
+        expect(new DeserializationError(Buffer.alloc(1), 'a')).toBeInstanceOf(InvalidPointError)
+    })
+
+    describe('SrsTooSmallError', () => {
+        const srs = createSRS(defaultSRS.g1(4), defaultSRS.g2(2))
+
+        it('should be thrown when a polynominal has more coefficients than G1 points', () => {
+            const error = getError(() => commit([...coefficients, BigInt(1)], srs))
+            expect(error).toBeInstanceOf(SrsTooSmallError)
+            expect(error.group).toEqual('G1')
+            expect(error.requested).toEqual(5)
+            expect(error.available).toEqual(4)
+        })
+
+        it('should be thrown when a multiproof needs more G2 points', () => {
+            const commitment = commit(coefficients, srs)
+            const proof = genMultiProofG1(coefficients, [1, 2].map(BigInt), FIELD_SIZE, undefined, srs)
+            const error = getError(
+                () => verifyMultiG1(commitment, proof, [1, 2].map(BigInt), [8, 21].map(BigInt), FIELD_SIZE, undefined, srs),
+            )
+            expect(error).toBeInstanceOf(SrsTooSmallError)
+            expect(error.group).toEqual('G2')
+            expect(error.requested).toEqual(3)
+            expect(error.available).toEqual(2)
+        })
+
+        it('should not be thrown for an empty request, which is an InvalidArgumentError', () => {
+            expect(() => srs.g1(0)).toThrow(InvalidArgumentError)
+        })
+    })
+
+    describe('DegreeTooLargeError', () => {
+        it('should be thrown for a degree proof of a polynominal above the bound', () => {
+            // Only the number of G2 points matters for the degree bound
+            const srs = createSRS(defaultSRS.g1(4), defaultSRS.g2(4))
+            const error = getError(() => genDegreeProof(coefficients, 2, 3, srs))
+            expect(error).toBeInstanceOf(DegreeTooLargeError)
+            expect(error.degree).toEqual(3)
+            expect(error.maxDegree).toEqual(2)
+            expect(error.message).toEqual('The degree 3 is larger than the maximum of 2')
+        })
+    })
+
+    describe('TooManyPointsError', () => {
+        it('should be thrown when opening a polynominal at too many points', () => {
+            const error = getError(() => genMultiProof(coefficients, [1, 2, 3, 4].map(BigInt)))
+            expect(error).toBeInstanceOf(TooManyPointsError)
+            expect(error.count).toEqual(4)
+            expect(error.maxCount).toEqual(3)
+        })
+
+        it('should be thrown for more points than the verifier contract supports', () => {
+            const indices: bigint[] = []
+            for (let i = 0; i < 129; i ++) {
+                indices.push(BigInt(i))
+            }
+            const error = getError(
+                () => genMultiVerifierContractParams(G1.g, G2.g, indices, indices),
+            )
+            expect(error).toBeInstanceOf(TooManyPointsError)
+            expect(error.count).toEqual(129)
+            expect(error.maxCount).toEqual(128)
+        })
+    })
+
+    describe('InvalidFieldElementError', () => {
+        it('should be thrown for values which are not integers', () => {
+            const error = getError(() => commit([BigInt(1), 1.5 as any]))
+            expect(error).toBeInstanceOf(InvalidFieldElementError)
+            expect(error.value).toEqual(1.5)
+            expect(error.modulus).toEqual(FIELD_SIZE)
+            expect(() => genCoefficients(['1' as any])).toThrow(InvalidFieldElementError)
+        })
+
+        it('should be thrown for an invalid coset offset', () => {
+            expect(() => genEvaluationDomain(4, BigInt(0))).toThrow(InvalidFieldElementError)
+            expect(() => genEvaluationDomain(4, FIELD_SIZE)).toThrow(InvalidFieldElementError)
+        })
+
+        it('should be thrown when a transcript absorbs a value out of range', () => {
+            const transcript = new Transcript('test')
+            const error = getError(() => transcript.absorbFieldElement('x', FIELD_SIZE))
+            expect(error).toBeInstanceOf(InvalidFieldElementError)
+            expect(error.value).toEqual(FIELD_SIZE)
+        })
+    })
+
+    describe('InvalidPointError', () => {
+        it('should be thrown for an SRS which does not start with the generators', () => {
+            const srs = createSRS(defaultSRS.g1(4).slice(1), defaultSRS.g2(2))
+            const error = getError(() => commit(coefficients.slice(0, 2), srs))
+            expect(error).toBeInstanceOf(InvalidPointError)
+            expect(error.point).toEqual(defaultSRS.g1(2)[1])
+            expect(error.reason).toEqual('The first G1 point of the SRS is not the generator')
+            expect(
+                () => createHidingSRS(defaultSRS.g1(4), defaultSRS.g2(2), [G1.g]),
+            ).toThrow(InvalidPointError)
+        })
+
+        it('should be thrown for serialized data which is not a point', () => {
+            const data = Buffer.alloc(31)
+            const error = getError(() => deserializeG1(data))
+            expect(error).toBeInstanceOf(InvalidPointError)
+            expect(error.point).toEqual(data)
+            expect(error.reason).toEqual('Expected 32 bytes but got 31')
+        })
+    })
+
+    describe('InvalidArgumentError', () => {
+        it('should name the invalid argument and give the reason', () => {
+            const error = getError(() => genBatchChallenge([G1.g], 1, []))
+            expect(error).toBeInstanceOf(InvalidArgumentError)
+            expect(error.argument).toEqual('values')
+            expect(error.reason).toEqual('There must be as many values as commitments')
+            expect(error.message).toEqual(error.reason)
+        })
+
+        it('should be thrown for an invalid evaluation domain', () => {
+            expect(() => genEvaluationDomain(3)).toThrow(InvalidArgumentError)
+            expect(() => genEvaluationDomain(2 ** 29)).toThrow(InvalidArgumentError)
+
+            const domain = genEvaluationDomain(4)
+            expect(() => genProof(coefficients, 4, FIELD_SIZE, domain)).toThrow(InvalidArgumentError)
+            expect(() => genCoefficients([BigInt(1)], FIELD_SIZE, domain)).toThrow(InvalidArgumentError)
+            expect(() => genAllProofs([BigInt(1)], domain)).toThrow(InvalidArgumentError)
+        })
+
+        it('should be thrown for empty or mismatched inputs', () => {
+            expect(() => genBatchProof([], 1)).toThrow(InvalidArgumentError)
+            expect(() => genBatchChallenge([G1.g], 1, [])).toThrow(InvalidArgumentError)
+            expect(() => isValidPairing([])).toThrow(InvalidArgumentError)
+            expect(
+                () => verifyBDFG([G1.g], { w: G1.g, wPrime: G1.g }, [[1, 2]], [[BigInt(1)]]),
+            ).toThrow(InvalidArgumentError)
+        })
+    })
+
+    describe('KzgError', () => {
+        it('should be thrown for a file which is not a binary SRS', () => {
+            const file = path.join(os.tmpdir(), `libkzg-errors-${process.pid}.bin`)
+            fs.writeFileSync(file, Buffer.alloc(16))
+            try {
+                expect(() => loadBinarySRS(file).sizeG1()).toThrow(KzgError)
+            } finally {
+                fs.unlinkSync(file)
+            }
+        })
+
+        it('should be thrown for a proof bundle of the wrong shape', () => {
+            const bundle = {
+                scheme: 'kzg' as const,
+                commitment: commit(coefficients),
+                proof: genProof(coefficients, 1),
+                indices: [1, 2].map(BigInt),
+                values: [8, 21].map(BigInt),
+            }
+            expect(() => verifyBundle(bundle)).toThrow(InvalidProofBundleError)
+        })
+    })
+})
@@ -3,18 +3,65 @@ import {
     genCoefficients,
     genQuotientPolynomial,
     genProof,
+    genAllProofs,
+    genBatchProof,
+    verifyBatch,
+    genBDFGProof,
+    verifyBDFG,
     genMultiProof,
+    genMultiProofG1,
     verify,
     verifyMulti,
+    verifyMultiG1,
     verifyViaEIP197,
+    batchVerify,
+    batchVerifyViaEIP197,
     isValidPairing,
     genVerifierContractParams,
     genMultiVerifierContractParams,
+    genMultiVerifierContractParamsG1,
     genBabyJubField,
+    genEvaluationDomain,
     commit,
+    commitEvaluations,
+    genProofFromEvaluations,
     genZeroPoly,
+    exportProofBundle,
+    importProofBundle,
+    verifyBundle,
+    InvalidProofBundleError,
+    genBlindingPolynomial,
+    commitHiding,
+    genHidingProof,
+    verifyHiding,
+    createHidingSRS,
+    checkSRS,
+    srsLagrangeG1,
+    addCommitments,
+    scaleCommitment,
+    linearCombination,
+    addProofs,
+    scaleProof,
+    linearCombinationProofs,
+    updateCommitment,
+    aggregateProofs,
+    genDegreeProof,
+    verifyDegreeProof,
+    createSRS,
+    defaultSRS,
+    InvalidArgumentError,
+    DegreeTooLargeError,
+    SrsTooSmallError,
+    InvalidPointError,
 } from '../'
 
+import {
+    genCeremony,
+    contribute,
+    ceremonySRS,
+    ceremonyHidingSRS,
+} from '../ceremony'
+
 import * as galois from '@guildofweavers/galois'
 import { bn128 } from 'ffjavascript'
 const Fr = bn128.Fr
@@ -94,6 +141,14 @@ describe('libkzg', () => {
             ).toBeTruthy()
         })
 
+        it('verifyViaEIP197() should reduce a negative index like verify()', () => {
+            const negProof = genProof(coefficients, -1)
+            const negValue = field.evalPolyAt(field.newVectorFrom(coefficients), FIELD_SIZE - BigInt(1))
+            expect(verify(commitment, negProof, -1, negValue)).toBeTruthy()
+            expect(verifyViaEIP197(commitment, negProof, -1, negValue)).toBeTruthy()
+            expect(verifyViaEIP197(commitment, negProof, 1, negValue)).toBeFalsy()
+        })
+
         it('not verify an invalid KZG proof', () => {
             expect(
                 verify(
@@ -146,6 +201,258 @@ describe('libkzg', () => {
         })
     })
 
+    describe('multi-scalar multiplication', () => {
+        it('commit() should match the sum of each SRS point times its coefficient', () => {
+            const degree = 40
+            const srsg1DataRaw = require('@libkzg/taug1_65536.json')
+            const coefficients: bigint[] = []
+            for (let i = 0; i < degree; i ++) {
+                // Include some zero coefficients, which fall into no bucket
+                coefficients.push(i % 7 === 0 ? BigInt(0) : field.rand())
+            }
+
+            let expected = G1.zero
+            for (let i = 0; i < degree; i ++) {
+                const point = [
+                    BigInt(srsg1DataRaw[i][0]),
+                    BigInt(srsg1DataRaw[i][1]),
+                    BigInt(1),
+                ]
+                expected = G1.add(expected, G1.mulScalar(point, coefficients[i]))
+            }
+            expected = G1.affine(expected)
+
+            const commitment = commit(coefficients)
+            expect(commitment).toEqual(expected)
+        })
+    })
+
+    describe('Lagrange-form commitments', () => {
+        const degree = 8
+        const values: bigint[] = []
+        for (let i = 0; i < degree; i ++) {
+            values.push(field.rand())
+        }
+        const coefficients = genCoefficients(values)
+
+        it('commitEvaluations() should match commit(genCoefficients())', () => {
+            const commitment = commitEvaluations(values)
+            expect(commitment).toEqual(commit(coefficients))
+        })
+
+        it('genProofFromEvaluations() should match genProof() at each index', () => {
+            for (let i = 0; i < degree; i ++) {
+                const proof = genProofFromEvaluations(values, i)
+                expect(proof).toEqual(genProof(coefficients, i))
+            }
+        })
+
+        it('genProofFromEvaluations() should generate a valid proof outside the evaluation points', () => {
+            const commitment = commitEvaluations(values)
+            const xVal = BigInt(1234)
+            const yVal = field.evalPolyAt(field.newVectorFrom(coefficients), xVal)
+            const proof = genProofFromEvaluations(values, xVal)
+            expect(proof).toEqual(genProof(coefficients, xVal))
+            expect(verify(commitment, proof, xVal, yVal)).toBeTruthy()
+        })
+    })
+
+    describe('evaluation domains', () => {
+        const size = 8
+        const values: bigint[] = []
+        for (let i = 0; i < size; i ++) {
+            values.push(field.rand())
+        }
+
+        for (const cosetOffset of [BigInt(1), BigInt(5)]) {
+            describe(`with a coset offset of ${cosetOffset}`, () => {
+                const domain = genEvaluationDomain(size, cosetOffset)
+                const coefficients = genCoefficients(values, prime, domain)
+                const commitment = commit(coefficients)
+                const xVal = (i: number) => field.mul(
+                    cosetOffset,
+                    field.exp(domain.generator, BigInt(i)),
+                )
+
+                it('genCoefficients() should interpolate the values at each x-value in the domain', () => {
+                    expect(field.exp(domain.generator, BigInt(size))).toEqual(BigInt(1))
+                    expect(field.mul(domain.generator, domain.generatorInv)).toEqual(BigInt(1))
+                    for (let i = 0; i < size; i ++) {
+                        const yVal = field.evalPolyAt(field.newVectorFrom(coefficients), xVal(i))
+                        expect(yVal).toEqual(values[i])
+                    }
+                })
+
+                it('generate and verify a proof at an index of the domain', () => {
+                    const index = 3
+                    const proof = genProof(coefficients, index, prime, domain)
+                    expect(proof).toEqual(genProof(coefficients, xVal(index)))
+                    expect(verify(commitment, proof, index, values[index], prime, domain)).toBeTruthy()
+                    expect(verify(commitment, proof, index + 1, values[index], prime, domain)).toBeFalsy()
+                    expect(verifyViaEIP197(commitment, proof, index, values[index], prime, domain)).toBeTruthy()
+                    expect(verifyViaEIP197(commitment, proof, index + 1, values[index], prime, domain)).toBeFalsy()
+                })
+
+                it('generate and verify a multiproof at indices of the domain', () => {
+                    const indices = [1, 4, 6]
+                    const multiProof = genMultiProof(coefficients, indices, prime, domain)
+                    const multiValues = indices.map((i) => values[i])
+                    expect(verifyMulti(commitment, multiProof, indices, multiValues, prime, domain)).toBeTruthy()
+                    expect(verifyMulti(commitment, multiProof, [1, 4, 5], multiValues, prime, domain)).toBeFalsy()
+                })
+            })
+        }
+    })
+
+    describe('computing all proofs at once', () => {
+        it('genAllProofs() should match genProof() at each index of the domain', () => {
+            const domain = genEvaluationDomain(8)
+            const coefficients: bigint[] = []
+            for (let i = 0; i < 8; i ++) {
+                coefficients.push(field.rand())
+            }
+            const proofs = genAllProofs(coefficients, domain)
+            expect(proofs.length).toEqual(8)
+            for (let i = 0; i < 8; i ++) {
+                expect(proofs[i]).toEqual(genProof(coefficients, i, prime, domain))
+            }
+        })
+
+        it('genAllProofs() should support coset domains smaller than the polynominal', () => {
+            const domain = genEvaluationDomain(4, BigInt(7))
+            const coefficients: bigint[] = []
+            for (let i = 0; i < 11; i ++) {
+                coefficients.push(field.rand())
+            }
+            const proofs = genAllProofs(coefficients, domain)
+            const commitment = commit(coefficients)
+            for (let i = 0; i < 4; i ++) {
+                expect(proofs[i]).toEqual(genProof(coefficients, i, prime, domain))
+            }
+
+            const xVal = field.mul(BigInt(7), field.exp(domain.generator, BigInt(2)))
+            const yVal = field.evalPolyAt(field.newVectorFrom(coefficients), xVal)
+            expect(verify(commitment, proofs[2], 2, yVal, prime, domain)).toBeTruthy()
+        })
+    })
+
+    describe('opening multiple polynominals at one point', () => {
+        const polys: bigint[][] = []
+        for (const degree of [4, 7, 5]) {
+            const poly: bigint[] = []
+            for (let i = 0; i < degree; i ++) {
+                poly.push(field.rand())
+            }
+            polys.push(poly)
+        }
+        const commitments = polys.map((poly) => commit(poly))
+        const index = BigInt(3)
+        const values = polys.map((poly) => field.evalPolyAt(field.newVectorFrom(poly), index))
+
+        it('generate and verify a batch proof', () => {
+            const proof = genBatchProof(polys, index)
+            expect(verifyBatch(commitments, proof, index, values)).toBeTruthy()
+        })
+
+        it('generate and verify a batch proof with a given challenge', () => {
+            const challenge = field.rand()
+            const proof = genBatchProof(polys, index, challenge)
+            expect(verifyBatch(commitments, proof, index, values, challenge)).toBeTruthy()
+            expect(verifyBatch(commitments, proof, index, values)).toBeFalsy()
+        })
+
+        it('not verify a batch proof with an invalid value', () => {
+            const proof = genBatchProof(polys, index)
+            const invalidValues = values.slice()
+            invalidValues[1] = field.add(invalidValues[1], BigInt(1))
+            expect(verifyBatch(commitments, proof, index, invalidValues)).toBeFalsy()
+            expect(verifyBatch(commitments, proof, index + BigInt(1), values)).toBeFalsy()
+        })
+    })
+
+    describe('opening multiple polynominals at multiple points', () => {
+        const polys: bigint[][] = []
+        for (const degree of [3, 8, 6]) {
+            const poly: bigint[] = []
+            for (let i = 0; i < degree; i ++) {
+                poly.push(field.rand())
+            }
+            polys.push(poly)
+        }
+        const commitments = polys.map((poly) => commit(poly))
+
+        // The point sets overlap, and the first polynominal is opened at as
+        // many points as it has coefficients
+        const pointSets = [
+            [0, 1, 2],
+            [1, 3, 4, 5],
+            [5, 100],
+        ].map((s) => s.map(BigInt))
+        const values = polys.map(
+            (poly, i) => pointSets[i].map((x) => field.evalPolyAt(field.newVectorFrom(poly), x)),
+        )
+
+        it('generate and verify a BDFG proof', () => {
+            const proof = genBDFGProof(polys, pointSets)
+            expect(verifyBDFG(commitments, proof, pointSets, values)).toBeTruthy()
+        })
+
+        it('not verify a BDFG proof with an invalid value or proof', () => {
+            const proof = genBDFGProof(polys, pointSets)
+
+            const invalidValues = values.map((v) => v.slice())
+            invalidValues[1][2] = field.add(invalidValues[1][2], BigInt(1))
+            expect(verifyBDFG(commitments, proof, pointSets, invalidValues)).toBeFalsy()
+
+            const invalidPoints = pointSets.map((s) => s.slice())
+            invalidPoints[2][1] = BigInt(101)
+            expect(verifyBDFG(commitments, proof, invalidPoints, values)).toBeFalsy()
+
+            expect(
+                verifyBDFG(commitments, { w: proof.wPrime, wPrime: proof.w }, pointSets, values)
+            ).toBeFalsy()
+        })
+    })
+
+    describe('batch verification', () => {
+        const numPolys = 3
+        const items: any[] = []
+        for (let i = 0; i < numPolys; i ++) {
+            const coefficients: bigint[] = []
+            for (let j = 0; j < 5; j ++) {
+                coefficients.push(field.rand())
+            }
+            const commitment = commit(coefficients)
+            for (const index of [BigInt(i), BigInt(10 + i)]) {
+                items.push({
+                    commitment,
+                    proof: genProof(coefficients, index),
+                    index,
+                    value: field.evalPolyAt(field.newVectorFrom(coefficients), index),
+                })
+            }
+        }
+
+        it('batchVerify() should verify a batch of valid proofs', () => {
+            expect(batchVerify(items)).toBeTruthy()
+            expect(batchVerifyViaEIP197(items)).toBeTruthy()
+        })
+
+        it('batchVerify() should reject a batch with one invalid proof', () => {
+            const invalidValue = items.slice()
+            invalidValue[3] = { ...items[3], value: field.add(items[3].value, BigInt(1)) }
+            expect(batchVerify(invalidValue)).toBeFalsy()
+            expect(batchVerifyViaEIP197(invalidValue)).toBeFalsy()
+
+            // Swap the proofs of two items
+            const swappedProofs = items.slice()
+            swappedProofs[0] = { ...items[0], proof: items[1].proof }
+            swappedProofs[1] = { ...items[1], proof: items[0].proof }
+            expect(batchVerify(swappedProofs)).toBeFalsy()
+            expect(batchVerifyViaEIP197(swappedProofs)).toBeFalsy()
+        })
+    })
+
     describe('pairing checks', () => {
         // The result of e(a, b) * e(c, d) is in the F12 field
         const F12 = bn128.F12
@@ -286,6 +593,39 @@ describe('libkzg', () => {
             expect(isValid).toBeTruthy()
         })
 
+        it('should generate and verify a multiproof in G1', () => {
+            const proofG1 = genMultiProofG1(coefficients, indices)
+            expect(verifyMultiG1(commitment, proofG1, indices, values)).toBeTruthy()
+
+            const invalidValues = values.slice()
+            invalidValues[0] = field.add(invalidValues[0], BigInt(1))
+            expect(verifyMultiG1(commitment, proofG1, indices, invalidValues)).toBeFalsy()
+            expect(verifyMultiG1(commitment, G1.neg(proofG1), indices, values)).toBeFalsy()
+        })
+
+        it('genMultiVerifierContractParamsG1() should give the zCoeffs which zCommit commits to', () => {
+            const proofG1 = genMultiProofG1(coefficients, indices)
+            const params = genMultiVerifierContractParamsG1(commitment, proofG1, indices, values)
+            const zCoeffs = params.zCoeffs.map((x) => BigInt(x))
+
+            // The contract requires a monic polynominal with a root at each
+            // index, and checks zCommit with a pairing
+            expect(zCoeffs.length).toEqual(indices.length + 1)
+            expect(zCoeffs[indices.length]).toEqual(BigInt(1))
+            for (const index of indices) {
+                expect(field.evalPolyAt(field.newVectorFrom(zCoeffs), BigInt(index))).toEqual(BigInt(0))
+            }
+            const zCommit = [
+                [BigInt(params.zCommit[0][1]), BigInt(params.zCommit[0][0])],
+                [BigInt(params.zCommit[1][1]), BigInt(params.zCommit[1][0])],
+                [BigInt(1), BigInt(0)],
+            ]
+            expect(isValidPairing([
+                { G1: G1.affine(G1.neg(commit(zCoeffs))), G2: G2.g },
+                { G1: G1.g, G2: zCommit },
+            ])).toBeTruthy()
+        })
+
         it('not verify an invalid multiproof', () => {
             const isValid = verifyMulti(
                 commitment,
@@ -300,4 +640,364 @@ describe('libkzg', () => {
             expect(isValid).toBeFalsy()
         })
     })
+
+    describe('proof bundles', () => {
+        const coefficients = [5, 0, 2, 1].map(BigInt)
+        const commitment = commit(coefficients)
+        const domain = genEvaluationDomain(8, BigInt(5))
+        const poly = field.newVectorFrom(coefficients)
+        const indices = [1, 3, 6].map(BigInt)
+        const values = indices.map(
+            (i) => field.evalPolyAt(poly, field.mul(BigInt(5), field.exp(domain.generator, i))),
+        )
+        const multiBundle = exportProofBundle({
+            scheme: 'kzg-multi',
+            commitment,
+            proof: genMultiProof(coefficients, indices, prime, domain),
+            indices,
+            values,
+            domain,
+        })
+
+        it('exportProofBundle() and importProofBundle() should round-trip a single proof', () => {
+            const json = exportProofBundle({
+                scheme: 'kzg',
+                commitment,
+                proof: genProof(coefficients, 6),
+                indices: [BigInt(6)],
+                values: [BigInt(293)],
+            })
+            const data = JSON.parse(json)
+            expect(data.version).toEqual(1)
+            expect(data.curve).toEqual('bn254')
+            expect(data.domain).toBeNull()
+
+            const bundle = importProofBundle(json)
+            expect(bundle.scheme).toEqual('kzg')
+            expect(bundle.indices).toEqual([BigInt(6)])
+            expect(verifyBundle(bundle)).toBeTruthy()
+
+            bundle.values[0] = BigInt(294)
+            expect(verifyBundle(bundle)).toBeFalsy()
+        })
+
+        it('exportProofBundle() should reduce negative and out-of-range scalars', () => {
+            // 5 + 2 * (-1)^2 + (-1)^3 = 6
+            const json = exportProofBundle({
+                scheme: 'kzg',
+                commitment,
+                proof: genProof(coefficients, -1),
+                indices: [BigInt(-1)],
+                values: [FIELD_SIZE + BigInt(6)],
+            })
+            const data = JSON.parse(json)
+            expect(data.indices).toEqual([(FIELD_SIZE - BigInt(1)).toString()])
+            expect(data.values).toEqual(['6'])
+
+            const bundle = importProofBundle(json)
+            expect(bundle.indices).toEqual([FIELD_SIZE - BigInt(1)])
+            expect(bundle.values).toEqual([BigInt(6)])
+            expect(verifyBundle(bundle)).toBeTruthy()
+        })
+
+        it('verifyBundle() should verify a multiproof over a domain', () => {
+            const bundle = importProofBundle(multiBundle)
+            expect(bundle.scheme).toEqual('kzg-multi')
+            expect(bundle.domain).toEqual(domain)
+            expect(verifyBundle(bundle)).toBeTruthy()
+
+            bundle.indices = [1, 3, 5].map(BigInt)
+            expect(verifyBundle(bundle)).toBeFalsy()
+        })
+
+        it('importProofBundle() should reject invalid bundles', () => {
+            const modify = (f: (data: any) => void) => {
+                const data = JSON.parse(multiBundle)
+                f(data)
+                return JSON.stringify(data)
+            }
+            const invalid = [
+                'not json',
+                '[]',
+                modify((d) => { d.extra = 1 }),
+                modify((d) => { delete d.values }),
+                modify((d) => { d.version = 2 }),
+                modify((d) => { d.scheme = 'kzg' }),
+                modify((d) => { d.curve = 'bls12-381' }),
+                modify((d) => { d.srsId = '0x' + '00'.repeat(32) }),
+                modify((d) => { d.domain.size = 6 }),
+                modify((d) => { d.domain.cosetOffset = '0' }),
+                modify((d) => { d.commitment = d.commitment.slice(0, -2) }),
+                modify((d) => { d.proof = '0x' + '00'.repeat(64) }),
+                modify((d) => { d.indices[0] = 1 }),
+                modify((d) => { d.indices[0] = '8' }),
+                modify((d) => { d.indices[1] = d.indices[0] }),
+                modify((d) => { d.values[0] = FIELD_SIZE.toString() }),
+                modify((d) => { d.values.pop() }),
+            ]
+            for (const json of invalid) {
+                expect(() => importProofBundle(json)).toThrow(InvalidProofBundleError)
+            }
+        })
+    })
+
+    describe('homomorphic operations', () => {
+        const a = [5, 0, 2, 1].map(BigInt)
+        const b = [1, 2, 3].map(BigInt)
+        const evalAt = (poly: bigint[], x: bigint) =>
+            field.evalPolyAt(field.newVectorFrom(poly), x)
+        const combine = (x: bigint[], y: bigint[], s: bigint, t: bigint) => {
+            const result: bigint[] = []
+            for (let i = 0; i < Math.max(x.length, y.length); i ++) {
+                const xi = i < x.length ? x[i] : BigInt(0)
+                const yi = i < y.length ? y[i] : BigInt(0)
+                result.push(mod(s * xi + t * yi, FIELD_SIZE) as bigint)
+            }
+            return result
+        }
+
+        it('addCommitments(), scaleCommitment() and linearCombination() should match commit()', () => {
+            const ca = commit(a)
+            const cb = commit(b)
+            expect(addCommitments(ca, cb)).toEqual(commit(combine(a, b, BigInt(1), BigInt(1))))
+            expect(scaleCommitment(ca, -3)).toEqual(commit(combine(a, [], BigInt(-3), BigInt(0))))
+            expect(linearCombination([ca, cb], [BigInt(2), BigInt(-1)]))
+                .toEqual(commit(combine(a, b, BigInt(2), BigInt(-1))))
+        })
+
+        it('the proof equivalents should verify against the combined commitments', () => {
+            const x = BigInt(6)
+            const ca = commit(a)
+            const cb = commit(b)
+            const pa = genProof(a, x)
+            const pb = genProof(b, x)
+
+            const sum = field.add(evalAt(a, x), evalAt(b, x))
+            expect(verify(addCommitments(ca, cb), addProofs(pa, pb), x, sum)).toBeTruthy()
+
+            const scaled = field.mul(evalAt(a, x), BigInt(7))
+            expect(verify(scaleCommitment(ca, 7), scaleProof(pa, 7), x, scaled)).toBeTruthy()
+
+            const combined = field.sub(field.mul(evalAt(a, x), BigInt(2)), evalAt(b, x))
+            const commitment = linearCombination([ca, cb], [2, -1])
+            const proof = linearCombinationProofs([pa, pb], [2, -1])
+            expect(verify(commitment, proof, x, combined)).toBeTruthy()
+            expect(proof).toEqual(genProof(combine(a, b, BigInt(2), BigInt(-1)), x))
+        })
+
+        it('updateCommitment() should match a fresh commitment', () => {
+            // With n = 5, updateCommitment() computes srsLagrangeG1(n), and
+            // with n = 8, it uses the output which was already cached
+            for (const n of [5, 8]) {
+                const values: bigint[] = []
+                for (let i = 0; i < n; i ++) {
+                    values.push(BigInt(i * 10 + 1))
+                }
+                if (n === 8) {
+                    srsLagrangeG1(n)
+                }
+                const commitment = commit(genCoefficients(values))
+                const newValues = values.slice()
+                newValues[3] = BigInt(-7)
+                const updated = updateCommitment(commitment, 3, values[3], newValues[3], n)
+                expect(updated).toEqual(commit(genCoefficients(newValues)))
+                expect(updated).toEqual(commitEvaluations(newValues))
+            }
+        })
+
+        it('should reject invalid arguments', () => {
+            const ca = commit(a)
+            expect(() => linearCombination([ca], [1, 2])).toThrow(InvalidArgumentError)
+            expect(() => linearCombinationProofs([], [])).toThrow(InvalidArgumentError)
+            expect(() => updateCommitment(ca, 4, BigInt(1), BigInt(2), 4)).toThrow(InvalidArgumentError)
+        })
+    })
+
+    describe('negative coefficients', () => {
+        const negative = [-5, 0, -2, 1].map(BigInt)
+        const reduced = negative.map((c) => (c + FIELD_SIZE) % FIELD_SIZE)
+
+        it('commit() should reduce coefficients modulo FIELD_SIZE', () => {
+            expect(G1.eq(commit(negative), commit(reduced))).toBeTruthy()
+            expect(G1.eq(commit([FIELD_SIZE + BigInt(5)]), commit([BigInt(5)]))).toBeTruthy()
+        })
+
+        it('genProof() and genMultiProof() should accept negative coefficients', () => {
+            const commitment = commit(negative)
+            // -5 - 2 * 36 + 216 = 139
+            const proof = genProof(negative, 6)
+            expect(G1.eq(proof, genProof(reduced, 6))).toBeTruthy()
+            expect(verify(commitment, proof, 6, BigInt(139))).toBeTruthy()
+
+            // The values at x = -1 and x = 2 are -8 and -5
+            const multiProof = genMultiProof(negative, [-1, 2].map(BigInt))
+            expect(G2.eq(multiProof, genMultiProof(reduced, [FIELD_SIZE - BigInt(1), BigInt(2)]))).toBeTruthy()
+            expect(verifyMulti(commitment, multiProof, [-1, 2].map(BigInt), [-8, -5].map(BigInt))).toBeTruthy()
+        })
+
+        it('genCoefficients() should reduce values modulo FIELD_SIZE', () => {
+            const values = [-1, 5, -7].map(BigInt)
+            const expected = genCoefficients(values.map((v) => (v + FIELD_SIZE) % FIELD_SIZE))
+            expect(genCoefficients(values)).toEqual(expected)
+        })
+
+        it('the contract parameter helpers should reduce values modulo FIELD_SIZE', () => {
+            const commitment = commit(negative)
+            const proof = genProof(negative, 6)
+            const params = genVerifierContractParams(commitment, proof, -1, BigInt(-9))
+            expect(params.index).toEqual('0x' + (FIELD_SIZE - BigInt(1)).toString(16))
+            expect(params.value).toEqual('0x' + (FIELD_SIZE - BigInt(9)).toString(16))
+
+            const multiProof = genMultiProof(negative, [-1, 2].map(BigInt))
+            const multiParams = genMultiVerifierContractParams(commitment, multiProof, [-1, 2].map(BigInt), [-8, -5].map(BigInt))
+            expect(multiParams.values[1]).toEqual('0x' + (FIELD_SIZE - BigInt(5)).toString(16))
+        })
+
+        it('should reject values which are not integers', () => {
+            const message = 'cannot be reduced to a field element'
+            expect(() => commit([1.5 as any])).toThrow(message)
+            expect(() => genCoefficients([NaN as any])).toThrow(message)
+            expect(() => genProof(['5' as any, BigInt(1)], 6)).toThrow(message)
+        })
+    })
+
+    describe('hiding commitments', () => {
+        const srs = ceremonyHidingSRS(contribute(genCeremony(8, 2, 8)))
+        const blindingA = genBlindingPolynomial(coefficients.length)
+        const blindingB = genBlindingPolynomial(coefficients.length)
+        const commitmentA = commitHiding(coefficients, blindingA, srs)
+        const commitmentB = commitHiding(coefficients, blindingB, srs)
+
+        it('two commitments to the same polynominal should differ', () => {
+            expect(G1.eq(commitmentA, commitmentB)).toBeFalsy()
+            expect(G1.eq(commitmentA, commit(coefficients, srs))).toBeFalsy()
+        })
+
+        it('genHidingProof() should generate proofs which verify', () => {
+            const proofA = genHidingProof(coefficients, blindingA, 6, srs)
+            const proofB = genHidingProof(coefficients, blindingB, 6, srs)
+            expect(G1.eq(proofA.proof, proofB.proof)).toBeFalsy()
+            expect(verifyHiding(commitmentA, proofA, 6, BigInt(293), srs)).toBeTruthy()
+            expect(verifyHiding(commitmentB, proofB, 6, BigInt(293), srs)).toBeTruthy()
+        })
+
+        it('verifyHiding() should reject invalid proofs', () => {
+            const proof = genHidingProof(coefficients, blindingA, 6, srs)
+            expect(verifyHiding(commitmentA, proof, 6, BigInt(294), srs)).toBeFalsy()
+            expect(verifyHiding(commitmentB, proof, 6, BigInt(293), srs)).toBeFalsy()
+            const wrongBlinding = { ...proof, blindingValue: proof.blindingValue + BigInt(1) }
+            expect(verifyHiding(commitmentA, wrongBlinding, 6, BigInt(293), srs)).toBeFalsy()
+        })
+
+        it('should support evaluation domains', () => {
+            const domain = genEvaluationDomain(4)
+            const x = field.mul(domain.cosetOffset, field.exp(domain.generator, BigInt(3)))
+            const value = field.evalPolyAt(field.newVectorFrom(coefficients), x)
+            const proof = genHidingProof(coefficients, blindingA, 3, srs, FIELD_SIZE, domain)
+            expect(verifyHiding(commitmentA, proof, 3, value, srs, FIELD_SIZE, domain)).toBeTruthy()
+        })
+
+        it('checkSRS() should check the hiding points', () => {
+            const h = srs.h(8)
+            expect(checkSRS(srs)).toBeUndefined()
+            const invalid = createHidingSRS(srs.g1(8), srs.g2(2), [...h.slice(0, 7), h[0]])
+            expect(checkSRS(invalid)).toEqual('The H points are not consecutive powers of tau')
+        })
+    })
+
+    describe('degree proofs', () => {
+        // A complete ceremony, whose highest power of tau in G2 is 7
+        const srs = ceremonySRS(contribute(genCeremony(8, 8)))
+        const degreeG2 = 7
+        const poly = [5, 0, 2, 1].map(BigInt)
+        const commitment = commit(poly, srs)
+
+        it('should verify a proof of the degree or a larger bound', () => {
+            for (const maxDegree of [3, 4, 7]) {
+                const proof = genDegreeProof(poly, maxDegree, degreeG2, srs)
+                expect(verifyDegreeProof(commitment, proof, maxDegree, degreeG2, srs)).toBeTruthy()
+            }
+        })
+
+        it('should ignore trailing zeros and accept the zero polynominal', () => {
+            const proof = genDegreeProof([...poly, BigInt(0), BigInt(0)], 3, degreeG2, srs)
+            expect(verifyDegreeProof(commitment, proof, 3, degreeG2, srs)).toBeTruthy()
+            const zero = genDegreeProof([BigInt(0)], 0, degreeG2, srs)
+            expect(verifyDegreeProof(commit([BigInt(0)], srs), zero, 0, degreeG2, srs)).toBeTruthy()
+        })
+
+        it('should reject a polynominal of degree d + 1', () => {
+            const maxDegree = 2
+            expect(() => genDegreeProof(poly, maxDegree, degreeG2, srs)).toThrow(DegreeTooLargeError)
+
+            // A proof for a larger bound, or of the polynominal without its
+            // highest coefficient, should not verify
+            const proofForLargerBound = genDegreeProof(poly, maxDegree + 1, degreeG2, srs)
+            expect(verifyDegreeProof(commitment, proofForLargerBound, maxDegree, degreeG2, srs)).toBeFalsy()
+            const truncated = genDegreeProof(poly.slice(0, 3), maxDegree, degreeG2, srs)
+            expect(verifyDegreeProof(commitment, truncated, maxDegree, degreeG2, srs)).toBeFalsy()
+        })
+
+        it('should refuse an SRS which does not end at the ceremony\'s highest G2 power', () => {
+            // defaultSRS is a slice of a ceremony which published more G2
+            // powers than it holds
+            expect(() => genDegreeProof(poly, 3, defaultSRS.sizeG2(), defaultSRS)).toThrow(SrsTooSmallError)
+            expect(() => genDegreeProof(poly, 3, 6, srs)).toThrow(InvalidArgumentError)
+            expect(() => verifyDegreeProof(commitment, G2.g, 3, 8, srs)).toThrow(SrsTooSmallError)
+        })
+
+        it('should throw for an invalid degree bound', () => {
+            expect(() => genDegreeProof(poly, 8, degreeG2, srs)).toThrow(InvalidArgumentError)
+            expect(() => genDegreeProof(poly, -1, degreeG2, srs)).toThrow(InvalidArgumentError)
+        })
+    })
+
+    describe('proof aggregation', () => {
+        const poly = [5, 0, 2, 1, 7, 3, 0, 4].map(BigInt)
+        const commitment = commit(poly)
+        const evalAt = (x: bigint) => field.evalPolyAt(field.newVectorFrom(poly), x)
+        const indices = [1, 3, 6].map(BigInt)
+        const proofs = indices.map((index) => ({ index, proof: genProof(poly, index) }))
+        const values = indices.map(evalAt)
+
+        it('should aggregate single proofs into one which verifyMultiG1() accepts', () => {
+            const proof = aggregateProofs(commitment, proofs)
+            expect(verifyMultiG1(commitment, proof, indices, values)).toBeTruthy()
+            expect(G1.eq(proof, genMultiProofG1(poly, indices))).toBeTruthy()
+        })
+
+        it('should not depend on the order of the proofs', () => {
+            const proof = aggregateProofs(commitment, proofs.slice().reverse())
+            expect(verifyMultiG1(commitment, proof, indices, values)).toBeTruthy()
+        })
+
+        it('should return the same proof for one index', () => {
+            const proof = aggregateProofs(commitment, [proofs[0]])
+            expect(G1.eq(proof, proofs[0].proof)).toBeTruthy()
+        })
+
+        it('should not produce a valid proof from an invalid one', () => {
+            const wrong = [...proofs.slice(0, 2), { index: BigInt(6), proof: genProof(poly, 5) }]
+            const proof = aggregateProofs(commitment, wrong)
+            expect(verifyMultiG1(commitment, proof, indices, values)).toBeFalsy()
+            const good = aggregateProofs(commitment, proofs)
+            expect(verifyMultiG1(commitment, good, indices, [values[0], values[1], values[2] + BigInt(1)])).toBeFalsy()
+        })
+
+        it('should support evaluation domains', () => {
+            const domain = genEvaluationDomain(8)
+            const domainProofs = [2, 5].map((index) => ({ index, proof: genProof(poly, index, FIELD_SIZE, domain) }))
+            const xs = [2, 5].map((i) => field.mul(domain.cosetOffset, field.exp(domain.generator, BigInt(i))))
+            const proof = aggregateProofs(commitment, domainProofs, FIELD_SIZE, domain)
+            expect(verifyMultiG1(commitment, proof, [2, 5], xs.map(evalAt), FIELD_SIZE, domain)).toBeTruthy()
+        })
+
+        it('should throw for invalid input', () => {
+            expect(() => aggregateProofs(commitment, [])).toThrow(InvalidArgumentError)
+            expect(() => aggregateProofs(commitment, [proofs[0], proofs[0]])).toThrow(InvalidArgumentError)
+            const notOnCurve = [BigInt(1), BigInt(1), BigInt(1)]
+            expect(() => aggregateProofs(notOnCurve, proofs)).toThrow(InvalidPointError)
+            expect(() => aggregateProofs(commitment, [{ index: 1, proof: notOnCurve }])).toThrow(InvalidPointError)
+        })
+    })
 })
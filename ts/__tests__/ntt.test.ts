@@ -0,0 +1,197 @@
+import {
+    FIELD_SIZE,
+    genBabyJubField,
+    genCoefficients,
+    genQuotientPolynomial,
+    genMultiProof,
+    genZeroPoly,
+    commit,
+    verifyMulti,
+} from '../'
+
+import {
+    getRootOfUnity,
+    ntt,
+    intt,
+    groupNtt,
+    groupIntt,
+    mulPolysNTT,
+    divPolysNTT,
+    evalPolyAtPointsNTT,
+    genZeroPolyNTT,
+    interpolateNTT,
+    groupZeroQuotients,
+} from '../ntt'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+
+const field = genBabyJubField()
+
+const randPoly = (n: number): bigint[] => {
+    const result: bigint[] = []
+    for (let i = 0; i < n; i ++) {
+        result.push(field.rand())
+    }
+    return result
+}
+
+describe('NTT', () => {
+    it('getRootOfUnity() should return a primitive root of unity', () => {
+        const w = getRootOfUnity(field, 2 ** 28)
+        expect(field.exp(w, BigInt(2 ** 27))).toEqual(FIELD_SIZE - BigInt(1))
+        expect(field.exp(w, BigInt(2 ** 28))).toEqual(BigInt(1))
+
+        const w8 = getRootOfUnity(field, 8)
+        expect(field.exp(w8, BigInt(4))).toEqual(FIELD_SIZE - BigInt(1))
+        expect(field.exp(w8, BigInt(8))).toEqual(BigInt(1))
+    })
+
+    it('ntt() should evaluate a polynominal at the powers of a root of unity', () => {
+        const n = 16
+        const coefficients = randPoly(n)
+        const w = getRootOfUnity(field, n)
+        const evals = ntt(field, coefficients)
+        for (let i = 0; i < n; i ++) {
+            const x = field.exp(w, BigInt(i))
+            expect(evals[i]).toEqual(
+                field.evalPolyAt(field.newVectorFrom(coefficients), x),
+            )
+        }
+    })
+
+    it('intt() should invert ntt()', () => {
+        const coefficients = randPoly(256)
+        expect(intt(field, ntt(field, coefficients))).toEqual(coefficients)
+    })
+
+    it('groupNtt() should match ntt() in the exponent, and groupIntt() should invert it', () => {
+        const scalars = randPoly(8)
+        const points = scalars.map((x) => G1.mulScalar(G1.g, x))
+        const transformed = groupNtt(field, G1, points)
+        const expected = ntt(field, scalars)
+        for (let i = 0; i < 8; i ++) {
+            expect(G1.eq(transformed[i], G1.mulScalar(G1.g, expected[i]))).toBeTruthy()
+        }
+
+        const inverted = groupIntt(field, G1, transformed)
+        for (let i = 0; i < 8; i ++) {
+            expect(G1.eq(inverted[i], points[i])).toBeTruthy()
+        }
+    })
+
+    it('mulPolysNTT() should match galois', () => {
+        const a = randPoly(150)
+        const b = randPoly(100)
+        const expected = field.mulPolys(
+            field.newVectorFrom(a),
+            field.newVectorFrom(b),
+        ).toValues()
+        expect(mulPolysNTT(field, a, b)).toEqual(expected)
+    })
+
+    it('divPolysNTT() should match galois', () => {
+        const a = randPoly(300)
+        const b = randPoly(120)
+        const expected = field.divPolys(
+            field.newVectorFrom(a),
+            field.newVectorFrom(b),
+        ).toValues()
+        expect(divPolysNTT(field, a, b)).toEqual(expected)
+    })
+
+    it('evalPolyAtPointsNTT() should match galois', () => {
+        const poly = randPoly(200)
+        const xs = randPoly(130)
+        const evals = evalPolyAtPointsNTT(field, poly, xs)
+        for (let i = 0; i < xs.length; i ++) {
+            expect(evals[i]).toEqual(
+                field.evalPolyAt(field.newVectorFrom(poly), xs[i]),
+            )
+        }
+    })
+
+    it('interpolateNTT() should match galois', () => {
+        const xs = randPoly(150)
+        const ys = randPoly(150)
+        const expected = field.interpolate(
+            field.newVectorFrom(xs),
+            field.newVectorFrom(ys),
+        ).toValues()
+        expect(interpolateNTT(field, xs, ys)).toEqual(expected)
+    })
+
+    it('groupZeroQuotients() should match galois in the exponent', () => {
+        const xs = randPoly(70)
+        const scalars = randPoly(70)
+        const points = scalars.map((x) => G1.mulScalar(G1.g, x))
+        const quotients = groupZeroQuotients(field, G1, points, xs)
+
+        const zPoly = field.newVectorFrom(genZeroPolyNTT(field, xs))
+        for (let i = 0; i < xs.length; i ++) {
+            const q = field.divPolys(
+                zPoly,
+                field.newVectorFrom([field.neg(xs[i]), BigInt(1)]),
+            ).toValues()
+            let expected = BigInt(0)
+            for (let j = 0; j < q.length; j ++) {
+                expected = field.add(expected, field.mul(q[j], scalars[j]))
+            }
+            expect(G1.eq(quotients[i], G1.mulScalar(G1.g, expected))).toBeTruthy()
+        }
+    })
+})
+
+describe('Proof functions with large polynominals', () => {
+    const degree = 512
+    const values = randPoly(degree)
+    const coefficients = genCoefficients(values)
+    const poly = field.newVectorFrom(coefficients)
+
+    it('genCoefficients() should interpolate the values', () => {
+        expect(coefficients.length).toEqual(degree)
+        for (let i = 0; i < degree; i += 17) {
+            expect(field.evalPolyAt(poly, BigInt(i))).toEqual(values[i])
+        }
+    })
+
+    it('genQuotientPolynomial() should match galois', () => {
+        const xVal = BigInt(1000)
+        const yVal = field.evalPolyAt(poly, xVal)
+        const expected = field.divPolys(
+            field.subPolys(poly, field.newVectorFrom([yVal])),
+            field.newVectorFrom([FIELD_SIZE - xVal, BigInt(1)]),
+        ).toValues()
+        expect(genQuotientPolynomial(coefficients, xVal)).toEqual(expected)
+    })
+
+    it('genZeroPoly() should intersect y=0 at each index', () => {
+        const indices: bigint[] = []
+        for (let i = 0; i < 300; i ++) {
+            indices.push(BigInt(i * 3))
+        }
+        const zPoly = genZeroPoly(field, indices)
+        expect(zPoly.length).toEqual(indices.length + 1)
+        for (const index of indices) {
+            expect(field.evalPolyAt(zPoly, index)).toEqual(BigInt(0))
+        }
+    })
+
+    it('generate and verify a multiproof for many indices', () => {
+        const indices: bigint[] = []
+        for (let i = 0; i < 260; i ++) {
+            indices.push(BigInt(i))
+        }
+        const commitment = commit(coefficients)
+        const proof = genMultiProof(coefficients, indices)
+        expect(
+            verifyMulti(commitment, proof, indices, values.slice(0, 260))
+        ).toBeTruthy()
+
+        const invalidValues = values.slice(0, 260)
+        invalidValues[5] = field.add(invalidValues[5], BigInt(1))
+        expect(
+            verifyMulti(commitment, proof, indices, invalidValues)
+        ).toBeFalsy()
+    })
+})
@@ -0,0 +1,155 @@
+import {
+    commit,
+    genProof,
+    genMultiProof,
+    verify,
+    verifyMulti,
+    serializeG1,
+    deserializeG1,
+    serializeG2,
+    deserializeG2,
+    DeserializationError,
+    InvalidEncodingError,
+    PointNotOnCurveError,
+    PointNotInSubgroupError,
+} from '../'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+const G2 = bn128.G2
+
+const coefficients = [5, 0, 2, 1].map(BigInt)
+
+describe('Point serialization', () => {
+    describe('G1', () => {
+        it('serializes the generator and its negation', () => {
+            const expected = '01' + '00'.repeat(31)
+            expect(serializeG1(G1.g).toString('hex')).toEqual(expected)
+
+            // y = q - 2 is negative
+            const negated = serializeG1(G1.neg(G1.g))
+            expect(negated.toString('hex')).toEqual('01' + '00'.repeat(30) + '80')
+
+            const uncompressed = serializeG1(G1.g, false)
+            expect(uncompressed.toString('hex')).toEqual(
+                '01' + '00'.repeat(31) + '02' + '00'.repeat(31),
+            )
+        })
+
+        it('round-trips commitments and proofs', () => {
+            const commitment = commit(coefficients)
+            const proof = genProof(coefficients, 6)
+            for (const compressed of [true, false]) {
+                const c = deserializeG1(serializeG1(commitment, compressed), compressed)
+                const p = deserializeG1(serializeG1(proof, compressed), compressed)
+                expect(G1.eq(c, commitment)).toBeTruthy()
+                expect(verify(c, p, BigInt(6), BigInt(293))).toBeTruthy()
+            }
+        })
+
+        it('round-trips the point at infinity', () => {
+            for (const compressed of [true, false]) {
+                const data = serializeG1(G1.zero, compressed)
+                expect(data[data.length - 1]).toEqual(0x40)
+                expect(G1.eq(deserializeG1(data, compressed), G1.zero)).toBeTruthy()
+            }
+        })
+
+        it('rejects malformed data', () => {
+            const valid = serializeG1(G1.g)
+            expect(() => deserializeG1(valid.slice(1))).toThrow(InvalidEncodingError)
+
+            const bothFlags = Buffer.from(valid)
+            bothFlags[31] |= 0xc0
+            expect(() => deserializeG1(bothFlags)).toThrow(InvalidEncodingError)
+
+            const badInfinity = serializeG1(G1.zero)
+            badInfinity[0] = 1
+            expect(() => deserializeG1(badInfinity)).toThrow(InvalidEncodingError)
+
+            // x = q
+            const tooLarge = Buffer.from(bn128.q.toString(16).padStart(64, '0'), 'hex').reverse()
+            expect(() => deserializeG1(tooLarge)).toThrow(InvalidEncodingError)
+
+            const badSign = serializeG1(G1.g, false)
+            badSign[63] |= 0x80
+            expect(() => deserializeG1(badSign, false)).toThrow(InvalidEncodingError)
+        })
+
+        it('rejects points which are not on the curve', () => {
+            const notOnCurve = serializeG1(G1.g, false)
+            notOnCurve[32] = 3
+            expect(() => deserializeG1(notOnCurve, false)).toThrow(PointNotOnCurveError)
+
+            // Find an x-coordinate for which x^3 + 3 is not a square
+            let x = 1
+            let error
+            while (error === undefined) {
+                x ++
+                const data = Buffer.alloc(32)
+                data[0] = x
+                try {
+                    deserializeG1(data)
+                } catch (e) {
+                    error = e
+                }
+            }
+            expect(error).toBeInstanceOf(PointNotOnCurveError)
+            expect(error).toBeInstanceOf(DeserializationError)
+        })
+    })
+
+    describe('G2', () => {
+        it('round-trips multiproofs', () => {
+            const commitment = commit(coefficients)
+            const indices = [1, 2, 3].map(BigInt)
+            const values = [8, 21, 50].map(BigInt)
+            const proof = genMultiProof(coefficients, indices)
+            for (const compressed of [true, false]) {
+                const data = serializeG2(proof, compressed)
+                expect(data.length).toEqual(compressed ? 64 : 128)
+                const p = deserializeG2(data, compressed)
+                expect(G2.eq(p, proof)).toBeTruthy()
+                expect(verifyMulti(commitment, p, indices, values)).toBeTruthy()
+            }
+        })
+
+        it('serializes a point and its negation with different signs', () => {
+            const a = serializeG2(G2.g)
+            const b = serializeG2(G2.neg(G2.g))
+            expect(a.slice(0, 63)).toEqual(b.slice(0, 63))
+            expect(a[63] ^ b[63]).toEqual(0x80)
+            expect(G2.eq(deserializeG2(b), G2.neg(G2.g))).toBeTruthy()
+        })
+
+        it('round-trips the point at infinity', () => {
+            for (const compressed of [true, false]) {
+                const data = serializeG2(G2.zero, compressed)
+                expect(G2.eq(deserializeG2(data, compressed), G2.zero)).toBeTruthy()
+            }
+        })
+
+        it('rejects points which are not in the subgroup', () => {
+            // Almost every point on the twist is outside the subgroup
+            let x = 0
+            let error
+            while (!(error instanceof PointNotInSubgroupError)) {
+                x ++
+                const data = Buffer.alloc(64)
+                data[0] = x
+                try {
+                    deserializeG2(data)
+                } catch (e) {
+                    expect(e).toBeInstanceOf(DeserializationError)
+                    error = e
+                }
+            }
+        })
+
+        it('rejects points which are not on the curve', () => {
+            const notOnCurve = serializeG2(G2.g, false)
+            notOnCurve[64] ^= 1
+            expect(() => deserializeG2(notOnCurve, false)).toThrow(PointNotOnCurveError)
+        })
+    })
+})
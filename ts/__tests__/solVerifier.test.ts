@@ -8,12 +8,19 @@ import {
     commit,
     genProof,
     genMultiProof,
+    genMultiProofG1,
     verify,
     verifyMulti,
+    verifyMultiG1,
     genVerifierContractParams,
     genMultiVerifierContractParams,
+    genMultiVerifierContractParamsG1,
 } from '../'
 
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+const G2 = bn128.G2
+
 const mnemonic =
     'candy maple cake sugar pudding cream honey rich smooth crumble sweet treat'
 
@@ -245,6 +252,94 @@ describe('Solidity verifier', () => {
         })
     })
 
+    describe('multi-point proof verification with G1 proofs', () => {
+        it('should verify valid proofs', async () => {
+            const indices = [BigInt(0), BigInt(2), BigInt(5)]
+            const proof = genMultiProofG1(coefficients, indices)
+            const values = indices.map((x) => field.evalPolyAt(field.newVectorFrom(coefficients), x))
+            expect(verifyMultiG1(commitment, proof, indices, values)).toBeTruthy()
+
+            const params = genMultiVerifierContractParamsG1(
+                commitment,
+                proof,
+                indices,
+                values,
+            )
+
+            const result = await verifierContract.verifyMultiG1(
+                params.commitment,
+                params.proof,
+                params.indices,
+                params.values,
+                params.iCoeffs,
+                params.zCoeffs,
+                params.zCommit,
+            )
+            expect(result).toBeTruthy()
+        })
+
+        it('should reject a valid proof with an invalid zCommit', async () => {
+            const indices = [BigInt(0), BigInt(2)]
+            const proof = genMultiProofG1(coefficients, indices)
+            const values = indices.map((x) => field.evalPolyAt(field.newVectorFrom(coefficients), x))
+
+            const params = genMultiVerifierContractParamsG1(
+                commitment,
+                proof,
+                indices,
+                values,
+            )
+            const otherParams = genMultiVerifierContractParamsG1(
+                commitment,
+                proof,
+                [BigInt(0), BigInt(3)],
+                values,
+            )
+
+            const result = await verifierContract.verifyMultiG1(
+                params.commitment,
+                params.proof,
+                params.indices,
+                params.values,
+                params.iCoeffs,
+                params.zCoeffs,
+                otherParams.zCommit,
+            )
+            expect(result).toBeFalsy()
+        })
+
+        it('should reject a forged proof with the generator as zCommit', async () => {
+            // With zCommit = G2.g and proof = commitment - commit(iPoly), the
+            // pairing check alone holds for any values
+            const indices = [BigInt(0), BigInt(2)]
+            const values = [BigInt(1), BigInt(2)]
+            const params = genMultiVerifierContractParamsG1(
+                commitment,
+                genMultiProofG1(coefficients, indices),
+                indices,
+                values,
+            )
+            const iCommit = commit(params.iCoeffs.map((x) => BigInt(x)))
+            const forgedProof = G1.affine(G1.sub(commitment, iCommit))
+            const g2 = G2.affine(G2.g)
+
+            await expect(
+                verifierContract.verifyMultiG1(
+                    params.commitment,
+                    forgedProof.slice(0, 2).map((x) => '0x' + x.toString(16)),
+                    params.indices,
+                    params.values,
+                    params.iCoeffs,
+                    params.zCoeffs,
+                    [
+                        ['0x' + g2[0][1].toString(16), '0x' + g2[0][0].toString(16)],
+                        ['0x' + g2[1][1].toString(16), '0x' + g2[1][0].toString(16)],
+                    ],
+                ),
+            ).resolves.toBeFalsy()
+        })
+    })
+
     describe('single-point proof verification', () => {
         it('should verify a valid proof', async () => {
             expect.assertions(degree)
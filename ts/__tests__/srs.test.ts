@@ -0,0 +1,206 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import {
+    commit,
+    genProof,
+    genMultiProof,
+    verify,
+    verifyMulti,
+    commitEvaluations,
+    genCoefficients,
+    genSrsId,
+    createSRS,
+    loadJsonSRS,
+    loadBinarySRS,
+    writeBinarySRS,
+    defaultSRS,
+    checkSRS,
+    verifySRS,
+    deserializeG2,
+    KzgError,
+    SrsTooSmallError,
+} from '../'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+const G2 = bn128.G2
+
+// Generates an SRS with a known tau, which must never be done outside tests
+const genTestSRSPoints = (tau: bigint, depth: number) => {
+    const g1: any[] = []
+    const g2: any[] = []
+    let power = BigInt(1)
+    for (let i = 0; i < depth; i ++) {
+        g1.push(G1.affine(G1.mulScalar(G1.g, power)))
+        g2.push(G2.affine(G2.mulScalar(G2.g, power)))
+        power = (power * tau) % bn128.r
+    }
+    return { g1, g2 }
+}
+
+const coefficients = [5, 0, 2, 1].map(BigInt)
+const { g1, g2 } = genTestSRSPoints(BigInt(1234), 8)
+
+describe('Structured reference strings', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'libkzg-srs-'))
+    afterAll(() => {
+        for (const file of fs.readdirSync(tmpDir)) {
+            fs.unlinkSync(path.join(tmpDir, file))
+        }
+        fs.rmdirSync(tmpDir)
+    })
+
+    it('proof functions should accept an in-memory SRS', () => {
+        const srs = createSRS(g1, g2)
+        expect(srs.sizeG1()).toEqual(8)
+        expect(srs.g1(3)).toEqual(g1.slice(0, 3))
+
+        const commitment = commit(coefficients, srs)
+        expect(G1.eq(commitment, commit(coefficients))).toBeFalsy()
+
+        const proof = genProof(coefficients, 6, undefined, undefined, srs)
+        expect(verify(commitment, proof, 6, BigInt(293), undefined, undefined, srs)).toBeTruthy()
+        expect(verify(commitment, proof, 6, BigInt(293))).toBeFalsy()
+
+        const indices = [1, 2].map(BigInt)
+        const values = [8, 21].map(BigInt)
+        const multiProof = genMultiProof(coefficients, indices, undefined, undefined, srs)
+        expect(verifyMulti(commitment, multiProof, indices, values, undefined, undefined, srs)).toBeTruthy()
+
+        const evals = [3, 1, 4, 1].map(BigInt)
+        expect(G1.eq(
+            commitEvaluations(evals, srs),
+            commit(genCoefficients(evals), srs),
+        )).toBeTruthy()
+
+        expect(genSrsId(srs)).not.toEqual(genSrsId())
+        expect(() => srs.g1(9)).toThrow()
+    })
+
+    it('loadBinarySRS() should read the output of writeBinarySRS()', () => {
+        const file = path.join(tmpDir, 'srs.bin')
+        writeBinarySRS(file, createSRS(g1, g2), 8, 4)
+        expect(fs.statSync(file).size).toEqual(16 + 8 * 64 + 4 * 128)
+
+        const srs = loadBinarySRS(file)
+        expect(srs.sizeG1()).toEqual(8)
+        expect(srs.sizeG2()).toEqual(4)
+        for (let i = 0; i < 8; i ++) {
+            expect(G1.eq(srs.g1(8)[i], g1[i])).toBeTruthy()
+        }
+        for (let i = 0; i < 4; i ++) {
+            expect(G2.eq(srs.g2(4)[i], g2[i])).toBeTruthy()
+        }
+        expect(genSrsId(srs)).toEqual(genSrsId(createSRS(g1, g2)))
+    })
+
+    it('loadJsonSRS() should read files in the format of convert_ppot.ts', () => {
+        const g1File = path.join(tmpDir, 'g1.json')
+        const g2File = path.join(tmpDir, 'g2.json')
+        const srs = loadJsonSRS(g1File, g2File)
+
+        // The files are only read when the points are needed
+        fs.writeFileSync(g1File, JSON.stringify(g1.map(
+            (p) => [p[0], p[1]].map((x) => '0x' + x.toString(16)),
+        )))
+        fs.writeFileSync(g2File, JSON.stringify(g2.map(
+            (p) => [p[0][0], p[0][1], p[1][0], p[1][1]].map((x) => '0x' + x.toString(16)),
+        )))
+
+        const commitment = commit(coefficients, srs)
+        expect(G1.eq(commitment, commit(coefficients, createSRS(g1, g2)))).toBeTruthy()
+        expect(srs.sizeG2()).toEqual(8)
+    })
+
+    it('loadJsonSRS() should only read a file as far as the points needed', () => {
+        const g1File = path.join(tmpDir, 'g1-padded.json')
+        const g2File = path.join(tmpDir, 'g2-padded.json')
+        const hex = g1.map((p) => JSON.stringify([p[0], p[1]].map((x) => '0x' + x.toString(16))))
+
+        // 1 MiB of whitespace after the first 2 points
+        fs.writeFileSync(g1File, '[' + hex.slice(0, 2).join(',') + ',' + ' '.repeat(1 << 20) + hex.slice(2).join(',') + ']\n')
+        fs.writeFileSync(g2File, 'not json')
+        const srs = loadJsonSRS(g1File, g2File)
+
+        const readSync = jest.spyOn(fs, 'readSync')
+        try {
+            expect(srs.g1(2)).toEqual(g1.slice(0, 2))
+            const bytesRead = readSync.mock.results.reduce((sum, r) => sum + r.value, 0)
+            expect(bytesRead).toBeGreaterThan(0)
+            expect(bytesRead).toBeLessThan(fs.statSync(g1File).size / 8)
+        } finally {
+            readSync.mockRestore()
+        }
+
+        expect(srs.sizeG1()).toEqual(8)
+        expect(srs.g1(8)).toEqual(g1)
+        expect(() => srs.g1(9)).toThrow(SrsTooSmallError)
+        expect(() => srs.g2(1)).toThrow(KzgError)
+    })
+
+    it('the default SRS should start with the generators', () => {
+        expect(G1.eq(defaultSRS.g1(1)[0], G1.g)).toBeTruthy()
+        expect(G2.eq(defaultSRS.g2(1)[0], G2.g)).toBeTruthy()
+    })
+
+    describe('verifySRS()', () => {
+        it('should accept a valid SRS', () => {
+            expect(verifySRS(createSRS(g1, g2))).toBeTruthy()
+            expect(verifySRS(defaultSRS, 16, 4)).toBeTruthy()
+        })
+
+        it('should reject points which are not consecutive powers of tau', () => {
+            const badG1 = g1.slice()
+            badG1[5] = G1.affine(G1.double(badG1[5]))
+            expect(checkSRS(createSRS(badG1, g2))).toEqual(
+                'The G1 points are not consecutive powers of tau',
+            )
+
+            const badG2 = g2.slice()
+            badG2[7] = G2.affine(G2.neg(badG2[7]))
+            expect(checkSRS(createSRS(g1, badG2))).toEqual(
+                'The G2 points are not consecutive powers of tau',
+            )
+
+            // A different tau in G1 and G2
+            const other = genTestSRSPoints(BigInt(4321), 8)
+            expect(verifySRS(createSRS(g1, other.g2))).toBeFalsy()
+        })
+
+        it('should reject invalid points', () => {
+            const notOnCurve = g1.slice()
+            notOnCurve[3] = [BigInt(1), BigInt(3), BigInt(1)]
+            expect(checkSRS(createSRS(notOnCurve, g2))).toEqual(
+                'G1 point 3 is not on the curve',
+            )
+
+            const infinity = g1.slice()
+            infinity[2] = G1.zero
+            expect(checkSRS(createSRS(infinity, g2))).toEqual(
+                'G1 point 2 is the point at infinity',
+            )
+
+            // Find a point on the twist which is not in the subgroup
+            let outside
+            for (let x = 1; outside === undefined; x ++) {
+                const data = Buffer.alloc(64)
+                data[0] = x
+                try {
+                    outside = deserializeG2(data, true, false)
+                } catch {
+                    continue
+                }
+            }
+            const notInSubgroup = g2.slice()
+            notInSubgroup[1] = outside
+            expect(checkSRS(createSRS(g1, notInSubgroup))).toEqual(
+                'G2 point 1 is not in the subgroup',
+            )
+
+            expect(checkSRS(createSRS(g1.slice(1), g2)))
+                .toMatch(/^The SRS could not be loaded/)
+        })
+    })
+})
@@ -0,0 +1,92 @@
+import {
+    FIELD_SIZE,
+    Transcript,
+} from '../'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+const G2 = bn128.G2
+
+// Generates a transcript which absorbs one of each kind of value
+const genTranscript = (): Transcript => {
+    const transcript = new Transcript('test')
+    transcript.absorbFieldElement('x', BigInt(1234))
+    transcript.absorbG1('p', G1.mulScalar(G1.g, BigInt(5)))
+    transcript.absorbG2('q', G2.g)
+    transcript.absorbLabel('round')
+    return transcript
+}
+
+describe('Fiat-Shamir transcripts', () => {
+    // The expected values were cross-checked against ethers'
+    // solidityKeccak256(), which matches keccak256(abi.encodePacked(...)) in
+    // Solidity
+    it('squeezes a challenge from an empty transcript', () => {
+        const transcript = new Transcript('test')
+        expect(transcript.squeezeChallenge('c').toString()).toEqual(
+            '16308401871397777056536447460158352070595755977767604326673927561836065351384',
+        )
+    })
+
+    it('squeezes challenges after absorbing field elements and points', () => {
+        const transcript = genTranscript()
+        const c1 = transcript.squeezeChallenge('c1')
+        const c2 = transcript.squeezeChallenge('c2')
+        expect(c1.toString()).toEqual(
+            '18094261906473927884753917438191702237060454753658822478504735209356023272436',
+        )
+        expect(c2.toString()).toEqual(
+            '21318049167177376965595969733328750994046427336547077601453286941186311331766',
+        )
+        expect(c1 < FIELD_SIZE).toBeTruthy()
+        expect(c2 < FIELD_SIZE).toBeTruthy()
+    })
+
+    it('absorbs the point at infinity as (0, 0)', () => {
+        const transcript = new Transcript('test')
+        transcript.absorbG1('p', G1.zero)
+        expect(transcript.squeezeChallenge('c').toString()).toEqual(
+            '20427445010643571076200272047552406358693495051543849509254249620321049594759',
+        )
+    })
+
+    it('is deterministic', () => {
+        expect(genTranscript().squeezeChallenge('c'))
+            .toEqual(genTranscript().squeezeChallenge('c'))
+    })
+
+    it('separates domains and labels', () => {
+        const a = new Transcript('a')
+        const b = new Transcript('b')
+        expect(a.squeezeChallenge('c')).not.toEqual(b.squeezeChallenge('c'))
+
+        const c = new Transcript('test')
+        const d = new Transcript('test')
+        c.absorbFieldElement('x', BigInt(1))
+        d.absorbFieldElement('y', BigInt(1))
+        expect(c.squeezeChallenge('c')).not.toEqual(d.squeezeChallenge('c'))
+    })
+
+    it('separates squeezing from absorbing a label', () => {
+        const a = new Transcript('test')
+        const b = new Transcript('test')
+        a.squeezeChallenge('c')
+        b.absorbLabel('c')
+        expect(a.squeezeChallenge('d')).not.toEqual(b.squeezeChallenge('d'))
+    })
+
+    it('does not depend on the representation of a point', () => {
+        const point = G1.mulScalar(G1.g, BigInt(5))
+        const a = new Transcript('test')
+        const b = new Transcript('test')
+        a.absorbG1('p', point)
+        b.absorbG1('p', G1.affine(point))
+        expect(a.squeezeChallenge('c')).toEqual(b.squeezeChallenge('c'))
+    })
+
+    it('rejects values outside the field', () => {
+        const transcript = new Transcript('test')
+        expect(() => transcript.absorbFieldElement('x', FIELD_SIZE)).toThrow()
+        expect(() => transcript.absorbFieldElement('x', BigInt(-1))).toThrow()
+    })
+})
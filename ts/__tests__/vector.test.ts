@@ -0,0 +1,92 @@
+import {
+    FIELD_SIZE,
+    commit,
+    genCoefficients,
+    InvalidArgumentError,
+} from '../'
+
+import { KZGVector } from '../vector'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+
+const values = [5, 25, 125, 625, 3125].map(BigInt)
+
+describe('KZGVector', () => {
+    const vector = new KZGVector(values)
+
+    it('should commit to the polynominal which evaluates to values[i] at x = i', () => {
+        expect(G1.eq(vector.commitment, commit(genCoefficients(values)))).toBeTruthy()
+        expect(vector.length).toEqual(values.length)
+        expect(vector.toArray()).toEqual(values)
+        expect(vector.get(3)).toEqual(BigInt(625))
+    })
+
+    it('should reduce values modulo FIELD_SIZE', () => {
+        const v = new KZGVector([-1, 2])
+        expect(v.get(0)).toEqual(FIELD_SIZE - BigInt(1))
+    })
+
+    it('should open and verify a single index', () => {
+        for (let i = 0; i < values.length; i ++) {
+            const opening = vector.open(i)
+            expect(opening.scheme).toEqual('kzg')
+            expect(opening.values).toEqual([values[i]])
+            expect(KZGVector.verifyOpening(vector.commitment, opening)).toBeTruthy()
+        }
+    })
+
+    it('should open and verify many indices with one multiproof', () => {
+        const opening = vector.openMany([4, 0, 2])
+        expect(opening.scheme).toEqual('kzg-multi')
+        expect(opening.values).toEqual([values[4], values[0], values[2]])
+        expect(KZGVector.verifyOpening(vector.commitment, opening)).toBeTruthy()
+    })
+
+    it('should not verify an opening with a wrong value', () => {
+        const single = vector.open(1)
+        expect(KZGVector.verifyOpening(
+            vector.commitment, { ...single, values: [BigInt(26)] },
+        )).toBeFalsy()
+
+        const many = vector.openMany([1, 3])
+        expect(KZGVector.verifyOpening(
+            vector.commitment, { ...many, values: [values[1], BigInt(626)] },
+        )).toBeFalsy()
+        expect(KZGVector.verifyOpening(
+            vector.commitment, { ...many, indices: [1] },
+        )).toBeFalsy()
+    })
+
+    it('should open a vector of zeros', () => {
+        const v = new KZGVector([0, 0, 0, 0])
+        expect(KZGVector.verifyOpening(v.commitment, v.open(1))).toBeTruthy()
+        expect(KZGVector.verifyOpening(v.commitment, v.openMany([1, 2]))).toBeTruthy()
+    })
+
+    it('should keep the commitment in sync when a value is updated', () => {
+        const v = new KZGVector(values)
+        const oldOpening = v.open(2)
+
+        v.update(2, 7)
+        expect(v.get(2)).toEqual(BigInt(7))
+
+        const newValues = values.slice()
+        newValues[2] = BigInt(7)
+        expect(G1.eq(v.commitment, commit(genCoefficients(newValues)))).toBeTruthy()
+
+        expect(KZGVector.verifyOpening(v.commitment, v.open(2))).toBeTruthy()
+        expect(KZGVector.verifyOpening(v.commitment, v.openMany([0, 2]))).toBeTruthy()
+        expect(KZGVector.verifyOpening(v.commitment, oldOpening)).toBeFalsy()
+    })
+
+    it('should throw for invalid indices', () => {
+        expect(() => new KZGVector([])).toThrow(InvalidArgumentError)
+        expect(() => vector.open(values.length)).toThrow(InvalidArgumentError)
+        expect(() => vector.open(-1)).toThrow(InvalidArgumentError)
+        expect(() => vector.get(1.5)).toThrow(InvalidArgumentError)
+        expect(() => vector.update(5, 1)).toThrow(InvalidArgumentError)
+        expect(() => vector.openMany([])).toThrow(InvalidArgumentError)
+        expect(() => vector.openMany([1, 1])).toThrow(InvalidArgumentError)
+    })
+})
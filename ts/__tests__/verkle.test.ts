@@ -0,0 +1,188 @@
+import { keccak256 } from 'js-sha3'
+
+import {
+    FIELD_SIZE,
+    commit,
+    genCoefficients,
+    InvalidArgumentError,
+} from '../'
+
+import { KZGVector } from '../vector'
+
+import {
+    VerkleTree,
+    hashCommitment,
+    encodeLeafValue,
+    verifyVerkleProof,
+    genVerkleVerifierContractParams,
+} from '../verkle'
+
+import { bn128 } from 'ffjavascript'
+const G1 = bn128.G1
+
+describe('Verkle trees', () => {
+    describe('hashCommitment', () => {
+        it('should hash the point at infinity as (0, 0)', () => {
+            const expected = BigInt('0x' + keccak256(Buffer.alloc(64))) % FIELD_SIZE
+            expect(hashCommitment(G1.zero)).toEqual(expected)
+        })
+
+        it('should map a commitment into the field', () => {
+            const h = hashCommitment(G1.affine(G1.g))
+            expect(h < FIELD_SIZE).toBeTruthy()
+            expect(h).not.toEqual(hashCommitment(G1.zero))
+        })
+    })
+
+    describe('a tree of depth 1', () => {
+        it('should have the commitment to its values plus 1 as the root', () => {
+            const tree = new VerkleTree(4, 1)
+            tree.insert(1, 7)
+            tree.insert(3, 9)
+            const expected = commit(genCoefficients([0, 8, 0, 10].map(BigInt)))
+            expect(G1.eq(tree.root, expected)).toBeTruthy()
+        })
+
+        it('should prove a value of 0', () => {
+            const tree = new VerkleTree(4, 1)
+            tree.insert(2, 0)
+            expect(verifyVerkleProof(tree.root, tree.genProof(2), 4, 1)).toBeTruthy()
+        })
+
+        it('should not hold FIELD_SIZE - 1, which would look like an empty leaf', () => {
+            const tree = new VerkleTree(4, 1)
+            expect(encodeLeafValue(FIELD_SIZE - BigInt(1))).toEqual(BigInt(0))
+            expect(() => tree.insert(0, FIELD_SIZE - BigInt(1))).toThrow(InvalidArgumentError)
+            expect(() => tree.insert(0, -1)).toThrow(InvalidArgumentError)
+            expect(tree.has(0)).toBeFalsy()
+        })
+    })
+
+    describe('keys which are not in the tree', () => {
+        it('should not verify an opening of an empty leaf', () => {
+            const t = new VerkleTree(4, 2)
+            t.insert(5, 42)
+            const proof5 = t.genProof(5)
+
+            // Key 6 shares the leaf of key 5, which holds 0 at index 2. Open
+            // it honestly, as if key 6 were in the tree.
+            const leaf = new KZGVector([0, encodeLeafValue(42), 0, 0])
+            expect(G1.eq(leaf.commitment, proof5.commitments[0])).toBeTruthy()
+            const opening = leaf.openMany([2])
+            for (const value of [BigInt(0), FIELD_SIZE - BigInt(1)]) {
+                const forged = {
+                    key: BigInt(6),
+                    value,
+                    commitments: proof5.commitments,
+                    proofs: [proof5.proofs[0], opening.proof],
+                }
+                expect(verifyVerkleProof(t.root, forged as any, 4, 2)).toBeFalsy()
+            }
+            const empty = { key: BigInt(6), value: FIELD_SIZE - BigInt(1), commitments: proof5.commitments, proofs: [proof5.proofs[0], opening.proof] }
+            expect(() => genVerkleVerifierContractParams(t.root, empty as any, 4, 2)).toThrow(InvalidArgumentError)
+            expect(t.has(6)).toBeFalsy()
+            expect(() => t.genProof(6)).toThrow(InvalidArgumentError)
+        })
+    })
+
+    describe('a tree of width 4 and depth 3', () => {
+        const width = 4
+        const tree = new VerkleTree(width, 3)
+        tree.insert(0, 100)
+        tree.insert(27, 200)
+        tree.insert(63, 300)
+
+        it('should get the inserted values', () => {
+            expect(tree.get(0)).toEqual(BigInt(100))
+            expect(tree.get(27)).toEqual(BigInt(200))
+            expect(tree.get(63)).toEqual(BigInt(300))
+            expect(tree.has(27)).toBeTruthy()
+            expect(tree.has(26)).toBeFalsy()
+            expect(tree.get(26)).toBeUndefined()
+        })
+
+        it('should generate and verify a membership proof', () => {
+            const proof = tree.genProof(27)
+            expect(proof.value).toEqual(BigInt(200))
+            expect(proof.commitments.length).toEqual(2)
+            expect(proof.proofs.length).toEqual(3)
+            expect(verifyVerkleProof(tree.root, proof, width, 3)).toBeTruthy()
+        })
+
+        it('should not verify an invalid proof', () => {
+            const proof = tree.genProof(27)
+            expect(verifyVerkleProof(tree.root, { ...proof, value: BigInt(201) }, width, 3)).toBeFalsy()
+            expect(verifyVerkleProof(tree.root, { ...proof, key: BigInt(26) }, width, 3)).toBeFalsy()
+            expect(verifyVerkleProof(tree.root, { ...proof, key: BigInt(64) }, width, 3)).toBeFalsy()
+            expect(verifyVerkleProof(tree.root, { ...proof, commitments: [proof.commitments[0]] }, width, 3)).toBeFalsy()
+            expect(verifyVerkleProof(G1.affine(G1.g), proof, width, 3)).toBeFalsy()
+        })
+
+        it('should not verify a proof with the wrong number of levels', () => {
+            const t = new VerkleTree(width, 2)
+            t.insert(0, 111)
+            const real = t.genProof(0)
+            expect(verifyVerkleProof(t.root, real, width, 2)).toBeTruthy()
+
+            // A truncated proof which opens the root at the hash of an
+            // internal node, as if it were the value at key 0
+            const truncated = {
+                key: BigInt(0),
+                value: hashCommitment(real.commitments[0]),
+                commitments: [],
+                proofs: [real.proofs[0]],
+            }
+            expect(verifyVerkleProof(t.root, truncated, width, 2)).toBeFalsy()
+            expect(() => genVerkleVerifierContractParams(t.root, truncated, width, 2)).toThrow(InvalidArgumentError)
+
+            const overLong = {
+                ...real,
+                commitments: [...real.commitments, real.commitments[0]],
+                proofs: [...real.proofs, real.proofs[1]],
+            }
+            expect(verifyVerkleProof(t.root, overLong, width, 2)).toBeFalsy()
+            expect(verifyVerkleProof(t.root, real, width, 3)).toBeFalsy()
+        })
+
+        it('should update the root when a value is updated', () => {
+            const t = new VerkleTree(width, 3)
+            t.insert(5, 1)
+            t.insert(6, 2)
+            const oldRoot = t.root
+            const oldProof = t.genProof(6)
+
+            t.update(5, 3)
+            expect(t.get(5)).toEqual(BigInt(3))
+            expect(G1.eq(t.root, oldRoot)).toBeFalsy()
+            expect(verifyVerkleProof(t.root, oldProof, width, 3)).toBeFalsy()
+            expect(verifyVerkleProof(t.root, t.genProof(6), width, 3)).toBeTruthy()
+            expect(verifyVerkleProof(t.root, t.genProof(5), width, 3)).toBeTruthy()
+        })
+
+        it('should generate verifier contract parameters for each level', () => {
+            const proof = tree.genProof(63)
+            const params = genVerkleVerifierContractParams(tree.root, proof, width, 3)
+            expect(params.length).toEqual(3)
+            expect(params[0].commitment).toEqual([
+                '0x' + tree.root[0].toString(16),
+                '0x' + tree.root[1].toString(16),
+            ])
+            for (const p of params) {
+                expect(p.indices).toEqual(['0x3'])
+            }
+            expect(params[1].values).toEqual(['0x' + hashCommitment(proof.commitments[1]).toString(16)])
+            expect(params[2].values).toEqual(['0x' + BigInt(301).toString(16)])
+        })
+
+        it('should throw for invalid keys and shapes', () => {
+            expect(() => new VerkleTree(1, 2)).toThrow(InvalidArgumentError)
+            expect(() => new VerkleTree(129, 2)).toThrow(InvalidArgumentError)
+            expect(() => new VerkleTree(4, 0)).toThrow(InvalidArgumentError)
+            expect(() => tree.get(64)).toThrow(InvalidArgumentError)
+            expect(() => tree.get(-1)).toThrow(InvalidArgumentError)
+            expect(() => tree.insert(0, 1)).toThrow(InvalidArgumentError)
+            expect(() => tree.update(1, 1)).toThrow(InvalidArgumentError)
+            expect(() => tree.genProof(1)).toThrow(InvalidArgumentError)
+        })
+    })
+})
@@ -0,0 +1,230 @@
+import {
+    SRS,
+    defaultSRS,
+    Commitment,
+    MultiProof,
+    genCoefficients,
+    commit,
+    genMultiProof,
+    verifyMulti,
+} from './'
+import { InvalidArgumentError } from './errors'
+
+// The number of bytes packed into each field element, which keeps each
+// element below FIELD_SIZE
+const BYTES_PER_ELEMENT = 31
+
+/*
+ * A proof that the bytes at an offset of some data are the given bytes. The
+ * proof opens the length of the data and each element of encodeBytes(data)
+ * which holds part of the range, so it also reveals the other bytes of those
+ * elements.
+ */
+interface BytesRangeProof {
+    byteOffset: number;
+    // The bytes in the range
+    data: Buffer;
+    // 0, the index of the length, followed by the indices in
+    // encodeBytes(data) of the elements which hold the range
+    indices: number[];
+    // The elements at those indices
+    values: bigint[];
+    proof: MultiProof;
+}
+
+/*
+ * @return The index in encodeBytes(data) of the element which holds the
+ *         byte at the given offset. Element 0 is the length.
+ */
+const elementIndex = (byteOffset: number): number => {
+    return 1 + Math.floor(byteOffset / BYTES_PER_ELEMENT)
+}
+
+/*
+ * @return The 31 bytes of an element, or undefined if it does not fit in 31
+ *         bytes.
+ */
+const elementToBytes = (element: bigint): Buffer | undefined => {
+    const hex = BigInt(element).toString(16).padStart(BYTES_PER_ELEMENT * 2, '0')
+    if (element < BigInt(0) || hex.length > BYTES_PER_ELEMENT * 2) {
+        return undefined
+    }
+    return Buffer.from(hex, 'hex')
+}
+
+/*
+ * @return Field elements which encode the data: the number of bytes, followed
+ *         by each 31 bytes of the data as a big-endian integer. The last 31
+ *         bytes are padded with zeros on the right, so byte i of the data is
+ *         always byte (i % 31) of element 1 + floor(i / 31).
+ * @param data The data to encode.
+ */
+const encodeBytes = (data: Buffer | Uint8Array): bigint[] => {
+    const buf = Buffer.from(data)
+    const elements = [BigInt(buf.length)]
+    for (let i = 0; i < buf.length; i += BYTES_PER_ELEMENT) {
+        const chunk = Buffer.alloc(BYTES_PER_ELEMENT)
+        buf.copy(chunk, 0, i, Math.min(i + BYTES_PER_ELEMENT, buf.length))
+        elements.push(BigInt('0x' + chunk.toString('hex')))
+    }
+    return elements
+}
+
+/*
+ * @return The data which encodeBytes() encoded as the given field elements.
+ *         Throws an InvalidArgumentError if they are not an output of
+ *         encodeBytes().
+ * @param elements The field elements.
+ */
+const decodeBytes = (elements: bigint[]): Buffer => {
+    if (elements.length === 0) {
+        throw new InvalidArgumentError('elements', 'The length of the data is missing')
+    }
+    const length = BigInt(elements[0])
+    const numChunks = elements.length - 1
+    if (length < BigInt(0) || elementIndex(Number(length) - 1) !== numChunks) {
+        throw new InvalidArgumentError(
+            'elements',
+            `${numChunks} elements cannot hold ${length} bytes`,
+        )
+    }
+
+    const chunks: Buffer[] = []
+    for (let i = 1; i < elements.length; i ++) {
+        const chunk = elementToBytes(elements[i])
+        if (chunk === undefined) {
+            throw new InvalidArgumentError(
+                'elements',
+                `The element at index ${i} does not fit in ${BYTES_PER_ELEMENT} bytes`,
+            )
+        }
+        chunks.push(chunk)
+    }
+
+    const padded = Buffer.concat(chunks)
+    if (padded.slice(Number(length)).some((b) => b !== 0)) {
+        throw new InvalidArgumentError('elements', 'The padding after the data is not zero')
+    }
+    return padded.slice(0, Number(length))
+}
+
+/*
+ * @return The commitment to the polynominal which evaluates to the i-th
+ *         element of encodeBytes(data) at x = i.
+ * @param data The data to commit to.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const commitBytes = (
+    data: Buffer | Uint8Array,
+    srs: SRS = defaultSRS,
+): Commitment => {
+    return commit(genCoefficients(encodeBytes(data)), srs)
+}
+
+/*
+ * @return A proof, made with genMultiProof(), of the bytes in the given range
+ *         of the data, which verifyBytesRange() checks against
+ *         commitBytes(data).
+ * @param data The data which was committed to.
+ * @param byteOffset The offset of the first byte of the range.
+ * @param length The number of bytes in the range, which must be positive.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const proveBytesRange = (
+    data: Buffer | Uint8Array,
+    byteOffset: number,
+    length: number,
+    srs: SRS = defaultSRS,
+): BytesRangeProof => {
+    const buf = Buffer.from(data)
+    if (
+        !Number.isSafeInteger(byteOffset) || !Number.isSafeInteger(length) ||
+        byteOffset < 0 || length < 1 || byteOffset + length > buf.length
+    ) {
+        throw new InvalidArgumentError(
+            'byteOffset',
+            `The range of ${length} bytes at offset ${byteOffset} is not within the ${buf.length} bytes of data`,
+        )
+    }
+
+    const elements = encodeBytes(buf)
+    const indices: number[] = [0]
+    for (let i = elementIndex(byteOffset); i <= elementIndex(byteOffset + length - 1); i ++) {
+        indices.push(i)
+    }
+
+    return {
+        byteOffset,
+        data: buf.slice(byteOffset, byteOffset + length),
+        indices,
+        values: indices.map((i) => elements[i]),
+        // A range over all the data opens every element, which
+        // genMultiProof() only allows for a polynominal of a higher degree
+        // bound, so pad the coefficients with a 0
+        proof: genMultiProof([...genCoefficients(elements), BigInt(0)], indices, undefined, undefined, srs),
+    }
+}
+
+/*
+ * Returns true if the proof from proveBytesRange() shows that the data
+ * committed to by commitBytes() holds proof.data at proof.byteOffset, and
+ * false otherwise. The range must end within the data.
+ * @param commitment The output of commitBytes().
+ * @param proof The proof.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const verifyBytesRange = (
+    commitment: Commitment,
+    proof: BytesRangeProof,
+    srs: SRS = defaultSRS,
+): boolean => {
+    const { byteOffset, data, indices, values } = proof
+    if (
+        !Number.isSafeInteger(byteOffset) || byteOffset < 0 ||
+        data.length === 0 || values.length !== indices.length
+    ) {
+        return false
+    }
+
+    // The indices must be the length followed by exactly the elements which
+    // hold the range
+    const first = elementIndex(byteOffset)
+    const last = elementIndex(byteOffset + data.length - 1)
+    if (
+        indices.length !== last - first + 2 || indices[0] !== 0 ||
+        indices.slice(1).some((x, i) => x !== first + i)
+    ) {
+        return false
+    }
+
+    // The range must end within the data
+    if (BigInt(byteOffset + data.length) > BigInt(values[0])) {
+        return false
+    }
+
+    // The data must be the bytes of the values at the range
+    const chunks: Buffer[] = []
+    for (const value of values.slice(1)) {
+        const chunk = elementToBytes(value)
+        if (chunk === undefined) {
+            return false
+        }
+        chunks.push(chunk)
+    }
+    const start = byteOffset - (first - 1) * BYTES_PER_ELEMENT
+    if (!Buffer.concat(chunks).slice(start, start + data.length).equals(Buffer.from(data))) {
+        return false
+    }
+
+    return verifyMulti(commitment, proof.proof, indices, values, undefined, undefined, srs)
+}
+
+export {
+    BYTES_PER_ELEMENT,
+    BytesRangeProof,
+    encodeBytes,
+    decodeBytes,
+    commitBytes,
+    proveBytesRange,
+    verifyBytesRange,
+}
@@ -0,0 +1,525 @@
+import * as assert from 'assert'
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as argparse from 'argparse'
+import * as ffjavascript from 'ffjavascript'
+import { ec } from 'elliptic'
+import {
+    FIELD_SIZE,
+    SRS,
+    HidingSRS,
+    HIDING_GENERATOR,
+    createSRS,
+    createHidingSRS,
+    checkSRS,
+} from './'
+import { Transcript } from './transcript'
+import {
+    isOnCurveG1,
+    isOnCurveG2,
+    isInSubgroupG2,
+} from './serialize'
+
+type G1Point = ec
+type G2Point = ec
+
+const G1 = ffjavascript.bn128.G1
+const G2 = ffjavascript.bn128.G2
+
+/*
+ * The record of one contribution to a ceremony. Each contributor multiplies
+ * tau by a secret x, and publishes x * G2 along with a proof that they know
+ * x. Anyone can then check that tau * G1 was multiplied by the same x.
+ */
+interface Contribution {
+    // tau * G1 after this contribution
+    tauG1: G1Point;
+    // x * G2
+    potPubkey: G2Point;
+    // A Schnorr proof of knowledge of x: commitment = k * G2 and
+    // response = k + c * x, where c is squeezed from a Transcript
+    proof: {
+        commitment: G2Point;
+        response: bigint;
+    };
+}
+
+/*
+ * The state of a powers of tau ceremony: the powers of tau in G1 and G2, the
+ * powers of tau times HIDING_GENERATOR for hiding commitments, if any, and
+ * the contributions which produced them, in order.
+ */
+interface Ceremony {
+    g1: G1Point[];
+    g2: G2Point[];
+    h: G1Point[];
+    contributions: Contribution[];
+}
+
+/*
+ * @return A random element of the scalar field which is not 0. 64 random
+ *         bytes are reduced modulo FIELD_SIZE, so the bias is negligible.
+ */
+const genSecret = (): bigint => {
+    let secret = BigInt(0)
+    while (secret === BigInt(0)) {
+        const data = crypto.randomBytes(64)
+        secret = BigInt('0x' + data.toString('hex')) % FIELD_SIZE
+    }
+    return secret
+}
+
+/*
+ * @return The challenge of the proof of knowledge of a contribution. It binds
+ *         the proof to the previous value of tau * G1, so that a proof cannot
+ *         be replayed in another ceremony or at another position.
+ */
+const genContributionChallenge = (
+    prevTauG1: G1Point,
+    potPubkey: G2Point,
+    commitment: G2Point,
+): bigint => {
+    const transcript = new Transcript('libkzg-ceremony')
+    transcript.absorbG1('prevTauG1', prevTauG1)
+    transcript.absorbG2('potPubkey', potPubkey)
+    transcript.absorbG2('commitment', commitment)
+    return transcript.squeezeChallenge('challenge')
+}
+
+/*
+ * @return A new ceremony in which tau is 1, i.e. every point is the
+ *         generator. It must receive at least one contribution before it is
+ *         used.
+ * @param depthG1 The number of G1 points.
+ * @param depthG2 The number of G2 points.
+ * @param depthH The number of points tau^i * HIDING_GENERATOR. If it is not 0,
+ *               the ceremony produces a HidingSRS.
+ */
+const genCeremony = (
+    depthG1: number,
+    depthG2 = 2,
+    depthH = 0,
+): Ceremony => {
+    assert(depthG1 >= 2)
+    assert(depthG2 >= 2)
+    assert(depthH >= 0)
+
+    const g1: G1Point[] = []
+    const g2: G2Point[] = []
+    const h: G1Point[] = []
+    for (let i = 0; i < depthG1; i ++) {
+        g1.push(G1.affine(G1.g))
+    }
+    for (let i = 0; i < depthG2; i ++) {
+        g2.push(G2.affine(G2.g))
+    }
+    for (let i = 0; i < depthH; i ++) {
+        h.push(G1.affine(HIDING_GENERATOR))
+    }
+    return { g1, g2, h, contributions: [] }
+}
+
+/*
+ * @return The ceremony after a contribution of the given secret, which
+ *         multiplies the ith power of tau by secret^i. The original ceremony is
+ *         not modified. The secret must be discarded afterwards.
+ * @param ceremony The ceremony to contribute to.
+ * @param secret A value between 1 and FIELD_SIZE - 1. Defaults to a random
+ *               value.
+ */
+const contribute = (
+    ceremony: Ceremony,
+    secret: bigint = genSecret(),
+): Ceremony => {
+    secret = BigInt(secret)
+    assert(secret > BigInt(0))
+    assert(secret < FIELD_SIZE)
+
+    const powers: bigint[] = [BigInt(1)]
+    const depth = Math.max(ceremony.g1.length, ceremony.g2.length, ceremony.h.length)
+    while (powers.length < depth) {
+        powers.push((powers[powers.length - 1] * secret) % FIELD_SIZE)
+    }
+    const g1 = ceremony.g1.map((p, i) => G1.affine(G1.mulScalar(p, powers[i])))
+    const g2 = ceremony.g2.map((p, i) => G2.affine(G2.mulScalar(p, powers[i])))
+    const h = ceremony.h.map((p, i) => G1.affine(G1.mulScalar(p, powers[i])))
+
+    const potPubkey = G2.affine(G2.mulScalar(G2.g, secret))
+    const k = genSecret()
+    const commitment = G2.affine(G2.mulScalar(G2.g, k))
+    const c = genContributionChallenge(ceremony.g1[1], potPubkey, commitment)
+    const response = (k + c * secret) % FIELD_SIZE
+
+    const contribution: Contribution = {
+        tauG1: g1[1],
+        potPubkey,
+        proof: { commitment, response },
+    }
+
+    return {
+        g1,
+        g2,
+        h,
+        contributions: [...ceremony.contributions, contribution],
+    }
+}
+
+/*
+ * @return True if the contribution carries a valid proof of knowledge of its
+ *         secret x, and multiplies prevTauG1 by x to get its tauG1.
+ */
+const isValidContribution = (
+    prevTauG1: G1Point,
+    contribution: Contribution,
+): boolean => {
+    const { tauG1, potPubkey, proof } = contribution
+    if (G1.eq(tauG1, G1.zero) || !isOnCurveG1(tauG1)) {
+        return false
+    }
+    for (const p of [potPubkey, proof.commitment]) {
+        if (G2.eq(p, G2.zero) || !isOnCurveG2(p) || !isInSubgroupG2(p)) {
+            return false
+        }
+    }
+    const response = BigInt(proof.response)
+    if (response < BigInt(0) || response >= FIELD_SIZE) {
+        return false
+    }
+
+    // Check that response * G2 == commitment + c * potPubkey
+    const c = genContributionChallenge(prevTauG1, potPubkey, proof.commitment)
+    if (!G2.eq(
+        G2.mulScalar(G2.g, response),
+        G2.add(proof.commitment, G2.mulScalar(potPubkey, c)),
+    )) {
+        return false
+    }
+
+    // Check that e(tauG1, G2.g) == e(prevTauG1, potPubkey)
+    const bn = ffjavascript.bn128
+    return bn.F12.eq(
+        bn.pairing(G1.affine(tauG1), G2.affine(G2.g)),
+        bn.pairing(G1.affine(prevTauG1), G2.affine(potPubkey)),
+    )
+}
+
+/*
+ * @return True if the last contribution to after was made on top of before,
+ *         carries a valid proof of knowledge, and produced a valid SRS.
+ * @param before The ceremony before the contribution.
+ * @param after The ceremony after the contribution.
+ */
+const verifyContribution = (
+    before: Ceremony,
+    after: Ceremony,
+): boolean => {
+    const n = before.contributions.length
+    if (
+        after.g1.length !== before.g1.length ||
+        after.g2.length !== before.g2.length ||
+        after.h.length !== before.h.length ||
+        after.contributions.length !== n + 1
+    ) {
+        return false
+    }
+    for (let i = 0; i < n; i ++) {
+        if (!G1.eq(before.contributions[i].tauG1, after.contributions[i].tauG1)) {
+            return false
+        }
+    }
+
+    const contribution = after.contributions[n]
+    return isValidContribution(before.g1[1], contribution) &&
+        G1.eq(after.g1[1], contribution.tauG1) &&
+        checkSRS(genCeremonySRS(after)) === undefined
+}
+
+/*
+ * @return True if the ceremony has at least one contribution, each
+ *         contribution carries a valid proof of knowledge and builds on the
+ *         previous one, and the points are consecutive powers of the tau
+ *         produced by the last contribution. As long as one contributor
+ *         discarded their secret, nobody knows tau.
+ * @param ceremony The ceremony to verify.
+ */
+const verifyCeremony = (
+    ceremony: Ceremony,
+): boolean => {
+    if (ceremony.contributions.length === 0) {
+        return false
+    }
+
+    let tauG1 = G1.g
+    for (const contribution of ceremony.contributions) {
+        if (!isValidContribution(tauG1, contribution)) {
+            return false
+        }
+        tauG1 = contribution.tauG1
+    }
+
+    return G1.eq(ceremony.g1[1], tauG1) &&
+        checkSRS(genCeremonySRS(ceremony)) === undefined
+}
+
+/*
+ * @return An SRS which holds the points of the ceremony, which is a HidingSRS
+ *         if the ceremony has points tau^i * HIDING_GENERATOR.
+ */
+const genCeremonySRS = (
+    ceremony: Ceremony,
+): SRS | HidingSRS => {
+    if (ceremony.h.length === 0) {
+        return createSRS(ceremony.g1, ceremony.g2)
+    }
+    return createHidingSRS(ceremony.g1, ceremony.g2, ceremony.h)
+}
+
+/*
+ * @return An SRS which holds the points of the ceremony.
+ */
+const ceremonySRS = (
+    ceremony: Ceremony,
+): SRS => {
+    assert(ceremony.contributions.length > 0)
+    return genCeremonySRS(ceremony)
+}
+
+/*
+ * @return A HidingSRS which holds the points of the ceremony, for
+ *         commitHiding(). The ceremony must have been created with depthH > 0.
+ */
+const ceremonyHidingSRS = (
+    ceremony: Ceremony,
+): HidingSRS => {
+    assert(ceremony.contributions.length > 0)
+    assert(ceremony.h.length > 0)
+    return createHidingSRS(ceremony.g1, ceremony.g2, ceremony.h)
+}
+
+const toHex = (x: bigint): string => '0x' + x.toString(16)
+
+/*
+ * @return The affine coordinates of a G1 point as [x, y], as written by
+ *         convert_ppot.ts.
+ */
+const g1ToHex = (point: G1Point): string[] => {
+    const affine = G1.affine(point)
+    return [affine[0], affine[1]].map(toHex)
+}
+
+/*
+ * @return The affine coordinates of a G2 point as [x.c0, x.c1, y.c0, y.c1],
+ *         as written by convert_ppot.ts.
+ */
+const g2ToHex = (point: G2Point): string[] => {
+    const affine = G2.affine(point)
+    return [affine[0][0], affine[0][1], affine[1][0], affine[1][1]].map(toHex)
+}
+
+const hexToG1 = (p: string[]): G1Point => {
+    assert(p.length === 2)
+    return [BigInt(p[0]), BigInt(p[1]), BigInt(1)]
+}
+
+const hexToG2 = (p: string[]): G2Point => {
+    assert(p.length === 4)
+    return [
+        [ p[0], p[1] ].map(BigInt),
+        [ p[2], p[3] ].map(BigInt),
+        [ BigInt(1), BigInt(0) ],
+    ]
+}
+
+/*
+ * @return The JSON representation of a ceremony, which can be passed to the
+ *         next contributor. The points use the layout of convert_ppot.ts.
+ */
+const exportCeremony = (
+    ceremony: Ceremony,
+): string => {
+    return JSON.stringify({
+        g1: ceremony.g1.map(g1ToHex),
+        g2: ceremony.g2.map(g2ToHex),
+        h: ceremony.h.map(g1ToHex),
+        contributions: ceremony.contributions.map((c) => {
+            return {
+                tauG1: g1ToHex(c.tauG1),
+                potPubkey: g2ToHex(c.potPubkey),
+                proof: {
+                    commitment: g2ToHex(c.proof.commitment),
+                    response: toHex(c.proof.response),
+                },
+            }
+        }),
+    })
+}
+
+/*
+ * @return The ceremony represented by the output of exportCeremony(). It is
+ *         not verified; use verifyCeremony() or verifyContribution().
+ */
+const importCeremony = (
+    json: string,
+): Ceremony => {
+    const data = JSON.parse(json)
+    return {
+        g1: data.g1.map(hexToG1),
+        g2: data.g2.map(hexToG2),
+        h: data.h.map(hexToG1),
+        contributions: data.contributions.map((c) => {
+            return {
+                tauG1: hexToG1(c.tauG1),
+                potPubkey: hexToG2(c.potPubkey),
+                proof: {
+                    commitment: hexToG2(c.proof.commitment),
+                    response: BigInt(c.proof.response),
+                },
+            }
+        }),
+    }
+}
+
+/*
+ * Writes the points of a ceremony to the JSON files which convert_ppot.ts
+ * would write, so that they can be read by loadJsonSRS() and
+ * gen_constants_contract.ts.
+ * @param ceremony The ceremony, which must have at least one contribution.
+ * @param g1Path The path of the G1 file.
+ * @param g2Path The path of the G2 file.
+ */
+const writeCeremonySRS = (
+    ceremony: Ceremony,
+    g1Path: string,
+    g2Path: string,
+) => {
+    assert(ceremony.contributions.length > 0)
+    fs.writeFileSync(g1Path, JSON.stringify(ceremony.g1.map(g1ToHex)))
+    fs.writeFileSync(g2Path, JSON.stringify(ceremony.g2.map(g2ToHex)))
+}
+
+if (require.main === module) {
+    const parser = new argparse.ArgumentParser({
+        description: 'Run a powers of tau ceremony. "new" creates a ' +
+            'ceremony, "contribute" adds a contribution with a random ' +
+            'secret, "verify" checks every contribution, and "export" ' +
+            'writes the points as convert_ppot.ts would.',
+    })
+
+    parser.addArgument(
+        ['command'],
+        {
+            choices: ['new', 'contribute', 'verify', 'export'],
+        },
+    )
+
+    parser.addArgument(
+        ['-i', '--input'],
+        {
+            action: 'store',
+            help: 'The ceremony file to read',
+        },
+    )
+
+    parser.addArgument(
+        ['-o', '--output'],
+        {
+            action: 'store',
+            help: 'The ceremony file to write',
+        },
+    )
+
+    parser.addArgument(
+        ['-n', '--depth-g1'],
+        {
+            action: 'store',
+            type: 'int',
+            defaultValue: 129,
+            help: 'The number of G1 points of a new ceremony',
+        },
+    )
+
+    parser.addArgument(
+        ['-m', '--depth-g2'],
+        {
+            action: 'store',
+            type: 'int',
+            defaultValue: 2,
+            help: 'The number of G2 points of a new ceremony',
+        },
+    )
+
+    parser.addArgument(
+        ['-k', '--depth-h'],
+        {
+            action: 'store',
+            type: 'int',
+            defaultValue: 0,
+            help: 'The number of points for hiding commitments of a new ceremony',
+        },
+    )
+
+    parser.addArgument(
+        ['--g1'],
+        {
+            action: 'store',
+            help: 'The G1 file to export to',
+        },
+    )
+
+    parser.addArgument(
+        ['--g2'],
+        {
+            action: 'store',
+            help: 'The G2 file to export to',
+        },
+    )
+
+    const args = parser.parseArgs()
+
+    const required = {
+        new: ['output'],
+        contribute: ['input', 'output'],
+        verify: ['input'],
+        export: ['input', 'g1', 'g2'],
+    }[args.command]
+    for (const arg of required) {
+        if (!args[arg]) {
+            console.error(`--${arg} must be provided. Exiting.`)
+            process.exit(1)
+        }
+    }
+
+    if (args.command === 'new') {
+        const ceremony = genCeremony(args.depth_g1, args.depth_g2, args.depth_h)
+        fs.writeFileSync(args.output, exportCeremony(ceremony))
+    } else {
+        const ceremony = importCeremony(fs.readFileSync(args.input).toString())
+        if (args.command === 'contribute') {
+            const after = contribute(ceremony)
+            fs.writeFileSync(args.output, exportCeremony(after))
+            console.log(`Contribution ${after.contributions.length} written`)
+        } else if (args.command === 'verify') {
+            if (!verifyCeremony(ceremony)) {
+                console.error('The ceremony is invalid')
+                process.exit(1)
+            }
+            console.log(`All ${ceremony.contributions.length} contributions are valid`)
+        } else {
+            writeCeremonySRS(ceremony, args.g1, args.g2)
+        }
+    }
+}
+
+export {
+    Ceremony,
+    Contribution,
+    genCeremony,
+    contribute,
+    verifyContribution,
+    verifyCeremony,
+    ceremonySRS,
+    ceremonyHidingSRS,
+    exportCeremony,
+    importCeremony,
+    writeCeremonySRS,
+}
@@ -1,5 +1,26 @@
+import * as assert from 'assert'
 import * as fs from 'fs'
 import * as argparse from 'argparse'
+import * as ffjavascript from 'ffjavascript'
+import { deserializeG1, deserializeG2 } from './serialize'
+
+const G1 = ffjavascript.bn128.G1
+const G2 = ffjavascript.bn128.G2
+const F1 = ffjavascript.bn128.F1
+
+// The BN254 base field size
+const Q: bigint = ffjavascript.bn128.q
+
+// The power of the Perpetual Powers of Tau ceremony, which has 2^28 powers of
+// tau in G2 and 2^29 - 1 in G1
+const PPOT_POWER = 28
+
+// The inverse of the Montgomery factor 2^256 used in .ptau files
+const MONTGOMERY_R_INV: bigint = F1.inv(F1.e(BigInt(1) << BigInt(256)))
+
+// Challenge and response files start with the BLAKE2b hash of the previous
+// file
+const PPOT_HASH_BYTES = 64
 
 const processTauG1 = (data: string) => {
     const regex = /G1\(x=Fq\((0x[a-zA-Z0-9]+)\), y=Fq\((0x[a-zA-Z0-9]+)\)\)/
@@ -25,6 +46,218 @@ const processTauG2 = (data: string) => {
     return result
 }
 
+/*
+ * @return length bytes of the file at path, starting at offset.
+ */
+const readFileRange = (
+    path: string,
+    offset: number,
+    length: number,
+): Buffer => {
+    const buf = Buffer.alloc(length)
+    const fd = fs.openSync(path, 'r')
+    try {
+        const bytesRead = fs.readSync(fd, buf, 0, length, offset)
+        assert(bytesRead === length, 'Unexpected end of file')
+    } finally {
+        fs.closeSync(fd)
+    }
+    return buf
+}
+
+const toHex = (x: bigint): string => '0x' + x.toString(16)
+
+/*
+ * @return The value of a 32-byte big-endian base field element.
+ */
+const readBigEndian = (data: Buffer): bigint => {
+    const x = BigInt('0x' + data.toString('hex'))
+    assert(x < Q)
+    return x
+}
+
+/*
+ * @return The affine coordinates of a G1 point in a PPoT challenge file, in
+ *         which x and y are 32-byte big-endian values. The two most
+ *         significant bits of x are flags: the compression flag must be
+ *         unset, and the point at infinity is not expected in an SRS.
+ */
+const parsePpotG1Uncompressed = (data: Buffer): string[] => {
+    assert((data[0] & 0xc0) === 0, 'Invalid flags in an uncompressed G1 point')
+    const x = readBigEndian(data.slice(0, 32))
+    const y = readBigEndian(data.slice(32, 64))
+    return [x, y].map(toHex)
+}
+
+/*
+ * @return The affine coordinates of a G2 point in a PPoT challenge file, in
+ *         which each coordinate is encoded as c1 followed by c0, each a
+ *         32-byte big-endian value, with flags as in a G1 point.
+ */
+const parsePpotG2Uncompressed = (data: Buffer): string[] => {
+    assert((data[0] & 0xc0) === 0, 'Invalid flags in an uncompressed G2 point')
+    const c: bigint[] = []
+    for (let i = 0; i < 4; i ++) {
+        c.push(readBigEndian(data.slice(i * 32, (i + 1) * 32)))
+    }
+    return [c[1], c[0], c[3], c[2]].map(toHex)
+}
+
+/*
+ * @return The affine coordinates of a compressed G1 point in a PPoT response
+ *         file. This is the same as the format of serializeG1(), except that
+ *         it is big-endian, so reversing the bytes converts it.
+ */
+const parsePpotG1Compressed = (data: Buffer): string[] => {
+    const point = deserializeG1(Buffer.from(data).reverse())
+    assert(!G1.eq(point, G1.zero))
+    return [point[0], point[1]].map(toHex)
+}
+
+/*
+ * @return The affine coordinates of a compressed G2 point in a PPoT response
+ *         file. As c1 precedes c0, reversing all the bytes converts it to the
+ *         format of serializeG2().
+ */
+const parsePpotG2Compressed = (data: Buffer): string[] => {
+    const point = deserializeG2(Buffer.from(data).reverse(), true, false)
+    assert(!G2.eq(point, G2.zero))
+    return [point[0][0], point[0][1], point[1][0], point[1][1]].map(toHex)
+}
+
+/*
+ * @return The first numPowers powers of tau in G1 (taug1) or G2 (taug2) from
+ *         a Perpetual Powers of Tau challenge file, in which points are
+ *         uncompressed, or a response file, in which they are compressed.
+ *         After the hash of the previous file, both contain 2^(power + 1) - 1
+ *         powers of tau in G1 followed by 2^power powers of tau in G2. Only
+ *         the bytes of the requested points are read. Uncompressed points
+ *         are not checked to be on the curve, and no point is checked to be
+ *         in the subgroup.
+ * @param path The path to the challenge or response file.
+ * @param type Either 'taug1' or 'taug2'.
+ * @param numPowers The number of powers of tau to read.
+ * @param compressed True for a response file, and false for a challenge file.
+ * @param power The power of the ceremony. Defaults to 28.
+ */
+const readPpotFile = (
+    path: string,
+    type: string,
+    numPowers: number,
+    compressed: boolean,
+    power = PPOT_POWER,
+): string[][] => {
+    assert(type === 'taug1' || type === 'taug2')
+    assert(numPowers > 0)
+
+    const g1Bytes = compressed ? 32 : 64
+    const g2Bytes = g1Bytes * 2
+    const numG1 = 2 ** (power + 1) - 1
+    const numG2 = 2 ** power
+
+    let offset: number
+    let pointBytes: number
+    let parse: (data: Buffer) => string[]
+    if (type === 'taug1') {
+        assert(numPowers <= numG1)
+        offset = PPOT_HASH_BYTES
+        pointBytes = g1Bytes
+        parse = compressed ? parsePpotG1Compressed : parsePpotG1Uncompressed
+    } else {
+        assert(numPowers <= numG2)
+        offset = PPOT_HASH_BYTES + numG1 * g1Bytes
+        pointBytes = g2Bytes
+        parse = compressed ? parsePpotG2Compressed : parsePpotG2Uncompressed
+    }
+
+    const data = readFileRange(path, offset, numPowers * pointBytes)
+    const result: string[][] = []
+    for (let i = 0; i < numPowers; i ++) {
+        result.push(parse(data.slice(i * pointBytes, (i + 1) * pointBytes)))
+    }
+    return result
+}
+
+/*
+ * @return The value of a little-endian base field element in Montgomery form,
+ *         i.e. x * 2^256 mod Q.
+ */
+const readMontgomery = (data: Buffer): bigint => {
+    const x = BigInt('0x' + Buffer.from(data).reverse().toString('hex'))
+    assert(x < Q)
+    return F1.mul(x, MONTGOMERY_R_INV)
+}
+
+/*
+ * @return The first numPowers powers of tau in G1 (taug1) or G2 (taug2) from a
+ *         snarkjs .ptau file. The file consists of the magic string "ptau", a
+ *         version, and the number of sections, followed by the sections. Each
+ *         section has a 4-byte type and an 8-byte length. Section 1 is the
+ *         header (the size and value of Q, and the power), and sections 2
+ *         and 3 hold the powers of tau in G1 and G2. Each coordinate is a
+ *         32-byte little-endian value in Montgomery form, and G2 coordinates
+ *         are encoded as c0 followed by c1. Only the section headers and the
+ *         bytes of the requested points are read. The points are not
+ *         checked to be on the curve or in the subgroup.
+ * @param path The path to the .ptau file.
+ * @param type Either 'taug1' or 'taug2'.
+ * @param numPowers The number of powers of tau to read.
+ */
+const readPtauFile = (
+    path: string,
+    type: string,
+    numPowers: number,
+): string[][] => {
+    assert(type === 'taug1' || type === 'taug2')
+    assert(numPowers > 0)
+
+    const fileSize = fs.statSync(path).size
+    const header = readFileRange(path, 0, 12)
+    assert(header.slice(0, 4).toString() === 'ptau', 'Not a .ptau file')
+    const numSections = header.readUInt32LE(8)
+
+    // Find the offset of each section
+    const sections: Map<number, number> = new Map()
+    let pos = 12
+    for (let i = 0; i < numSections; i ++) {
+        const sectionHeader = readFileRange(path, pos, 12)
+        const sectionType = sectionHeader.readUInt32LE(0)
+        const sectionSize = Number(sectionHeader.readBigUInt64LE(4))
+        sections.set(sectionType, pos + 12)
+        pos += 12 + sectionSize
+        assert(pos <= fileSize, 'Unexpected end of file')
+    }
+
+    const headerOffset = sections.get(1)
+    assert(headerOffset !== undefined, 'Missing header section')
+    const n8 = readFileRange(path, headerOffset as number, 4).readUInt32LE(0)
+    assert(n8 === 32, 'Unsupported field size')
+    const headerData = readFileRange(path, (headerOffset as number) + 4, n8 + 4)
+    const q = BigInt('0x' + Buffer.from(headerData.slice(0, n8)).reverse().toString('hex'))
+    assert(q === Q, 'The .ptau file is not for BN254')
+    const power = headerData.readUInt32LE(n8)
+
+    const isG1 = type === 'taug1'
+    const numPoints = isG1 ? 2 ** (power + 1) - 1 : 2 ** power
+    assert(numPowers <= numPoints)
+    const sectionOffset = sections.get(isG1 ? 2 : 3)
+    assert(sectionOffset !== undefined, 'Missing powers of tau section')
+
+    const coordBytes = isG1 ? 2 : 4
+    const pointBytes = coordBytes * n8
+    const data = readFileRange(path, sectionOffset as number, numPowers * pointBytes)
+    const result: string[][] = []
+    for (let i = 0; i < numPowers; i ++) {
+        const coords: bigint[] = []
+        for (let j = 0; j < coordBytes; j ++) {
+            const start = i * pointBytes + j * n8
+            coords.push(readMontgomery(data.slice(start, start + n8)))
+        }
+        result.push(coords.map(toHex))
+    }
+    return result
+}
+
 if (require.main === module) {
     const parser = new argparse.ArgumentParser({ 
         description: 'Convert PPOT values to JSON',
@@ -34,8 +267,40 @@ if (require.main === module) {
         ['-t', '--type'],
         {
             action: 'store',
-            choices: ['taug1', 'taug2'],
+            choices: [
+                'taug1',
+                'taug2',
+                'challenge_taug1',
+                'challenge_taug2',
+                'response_taug1',
+                'response_taug2',
+                'ptau_taug1',
+                'ptau_taug2',
+            ],
             required: true,
+            help: 'taug1 and taug2 read the text dump of a PPoT challenge ' +
+                'file. The other types read a PPoT challenge file, a PPoT ' +
+                'response file, or a snarkjs .ptau file directly.',
+        },
+    )
+
+    parser.addArgument(
+        ['-n', '--num-powers'],
+        {
+            action: 'store',
+            type: 'int',
+            defaultValue: 65536,
+            help: 'The number of powers of tau to read from a binary file',
+        },
+    )
+
+    parser.addArgument(
+        ['-p', '--power'],
+        {
+            action: 'store',
+            type: 'int',
+            defaultValue: PPOT_POWER,
+            help: 'The power of the PPoT ceremony of a challenge or response file',
         },
     )
 
@@ -57,14 +322,23 @@ if (require.main === module) {
 
     const args = parser.parseArgs()
 
-    const data = fs.readFileSync(args.input).toString()
-
     let output
 
+    const [source, type] = args.type.split('_')
     if (args.type === 'taug1') {
-        output = processTauG1(data)
+        output = processTauG1(fs.readFileSync(args.input).toString())
     } else if (args.type === 'taug2') {
-        output = processTauG2(data)
+        output = processTauG2(fs.readFileSync(args.input).toString())
+    } else if (source === 'challenge' || source === 'response') {
+        output = readPpotFile(
+            args.input,
+            type,
+            args.num_powers,
+            source === 'response',
+            args.power,
+        )
+    } else if (source === 'ptau') {
+        output = readPtauFile(args.input, type, args.num_powers)
     } else {
         console.error('Unexpected -t/--type value provided. Exiting.')
         process.exit(1)
@@ -73,3 +347,10 @@ if (require.main === module) {
     const outputJson = JSON.stringify(output)
     fs.writeFileSync(args.output, outputJson)
 }
+
+export {
+    processTauG1,
+    processTauG2,
+    readPpotFile,
+    readPtauFile,
+}
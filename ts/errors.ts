@@ -0,0 +1,149 @@
+/*
+ * The base class of every error which this library throws because of its
+ * inputs, as opposed to a bug. Catch it to tell client errors apart from
+ * other errors.
+ */
+class KzgError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = new.target.name
+        Object.setPrototypeOf(this, new.target.prototype)
+    }
+}
+
+/*
+ * Thrown when arguments are inconsistent with each other or out of range,
+ * for instance arrays of different lengths, or an index outside of an
+ * evaluation domain.
+ */
+class InvalidArgumentError extends KzgError {
+    // The name of the parameter whose argument is invalid
+    public readonly argument: string
+    // Why the argument is invalid
+    public readonly reason: string
+
+    constructor(
+        argument: string,
+        reason: string,
+    ) {
+        super(reason)
+        this.argument = argument
+        this.reason = reason
+    }
+}
+
+/*
+ * Thrown when a polynominal has a larger degree than an operation supports.
+ */
+class DegreeTooLargeError extends KzgError {
+    // The degree of the polynominal
+    public readonly degree: number
+    // The largest degree supported
+    public readonly maxDegree: number
+
+    constructor(
+        degree: number,
+        maxDegree: number,
+        message = `The degree ${degree} is larger than the maximum of ${maxDegree}`,
+    ) {
+        super(message)
+        this.degree = degree
+        this.maxDegree = maxDegree
+    }
+}
+
+/*
+ * Thrown when more points are given than an operation supports, such as
+ * opening a polynominal at more points than its degree.
+ */
+class TooManyPointsError extends KzgError {
+    // The number of points given
+    public readonly count: number
+    // The largest number of points supported
+    public readonly maxCount: number
+
+    constructor(
+        count: number,
+        maxCount: number,
+        message = `${count} points were given, but at most ${maxCount} are supported`,
+    ) {
+        super(message)
+        this.count = count
+        this.maxCount = maxCount
+    }
+}
+
+/*
+ * Thrown when a value is not an element of the field, or cannot be reduced to
+ * one.
+ */
+class InvalidFieldElementError extends KzgError {
+    // The value which was given
+    public readonly value: unknown
+    // The size of the field
+    public readonly modulus: bigint
+
+    constructor(
+        value: unknown,
+        modulus: bigint,
+        message = `${value} is not an element of the field of size ${modulus}`,
+    ) {
+        super(message)
+        this.value = value
+        this.modulus = modulus
+    }
+}
+
+/*
+ * Thrown when a point is not the point which is expected, is not on the
+ * curve, or is not in the subgroup.
+ */
+class InvalidPointError extends KzgError {
+    // The point which is invalid, or its serialization
+    public readonly point: unknown
+    // Why the point is invalid
+    public readonly reason: string
+
+    constructor(
+        point: unknown,
+        reason: string,
+    ) {
+        super(reason)
+        this.point = point
+        this.reason = reason
+    }
+}
+
+/*
+ * Thrown when more points are requested from an SRS than it holds.
+ */
+class SrsTooSmallError extends KzgError {
+    // G1 and G2 are the powers of tau, and H the powers of tau times
+    // HIDING_GENERATOR
+    public readonly group: 'G1' | 'G2' | 'H'
+    // The number of points requested
+    public readonly requested: number
+    // The number of points available
+    public readonly available: number
+
+    constructor(
+        group: 'G1' | 'G2' | 'H',
+        requested: number,
+        available: number,
+    ) {
+        super(`${requested} ${group} points were requested, but the SRS only has ${available}`)
+        this.group = group
+        this.requested = requested
+        this.available = available
+    }
+}
+
+export {
+    KzgError,
+    InvalidArgumentError,
+    DegreeTooLargeError,
+    TooManyPointsError,
+    InvalidFieldElementError,
+    InvalidPointError,
+    SrsTooSmallError,
+}
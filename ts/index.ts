@@ -4,6 +4,57 @@ import * as galois from '@guildofweavers/galois'
 import * as bn128 from 'rustbn.js'
 import * as ffjavascript from 'ffjavascript'
 import { ec } from 'elliptic'
+import { keccak256 } from 'js-sha3'
+import {
+    MAX_NTT_LOG_SIZE,
+    getRootOfUnity,
+    isPowerOfTwo,
+    nextPowerOfTwo,
+    ntt,
+    intt,
+    groupNtt,
+    groupIntt,
+    divPolysNTT,
+    evalPolyAtPointsNTT,
+    genZeroPolyNTT,
+    interpolateNTT,
+    groupZeroQuotients,
+} from './ntt'
+import { Transcript } from './transcript'
+import {
+    DeserializationError,
+    InvalidEncodingError,
+    PointNotOnCurveError,
+    PointNotInSubgroupError,
+    serializeG1,
+    deserializeG1,
+    serializeG2,
+    deserializeG2,
+    isOnCurveG1,
+    isOnCurveG2,
+    isInSubgroupG2,
+} from './serialize'
+import {
+    SRS,
+    HidingSRS,
+    HIDING_GENERATOR,
+    createSRS,
+    createHidingSRS,
+    isHidingSRS,
+    loadJsonSRS,
+    loadBinarySRS,
+    writeBinarySRS,
+    defaultSRS,
+} from './srs'
+import {
+    KzgError,
+    InvalidArgumentError,
+    DegreeTooLargeError,
+    TooManyPointsError,
+    InvalidFieldElementError,
+    InvalidPointError,
+    SrsTooSmallError,
+} from './errors'
 
 type G1Point = ec
 type G2Point = ec
@@ -12,15 +63,93 @@ type Polynomial = Coefficient[]
 type Commitment = G1Point
 type Proof = G1Point
 type MultiProof = G2Point
+type MultiProofG1 = G1Point
+type DegreeProof = G2Point
 
 interface PairingInputs {
     G1: G1Point;
     G2: G2Point;
 }
 
+/*
+ * A proof that each of several polynominals evaluates to given values at its
+ * own set of points, from genBDFGProof(). w is the commitment to the quotient
+ * polynominal h(x), and wPrime is the opening proof of the linearised
+ * polynominal L(x) at the challenge z.
+ */
+interface BDFGProof {
+    w: G1Point;
+    wPrime: G1Point;
+}
+
+/*
+ * A proof of evaluation for a hiding commitment, from genHidingProof(). proof
+ * is the commitment to both quotient polynominals, and blindingValue is the
+ * evaluation of the blinding polynominal.
+ */
+interface HidingProof {
+    proof: Proof;
+    blindingValue: bigint;
+}
+
+/*
+ * A claim that the polynominal committed to evaluates to value at index, to
+ * be checked by batchVerify().
+ */
+interface IndexedProof {
+    index: number | bigint;
+    proof: Proof;
+}
+
+interface BatchVerifyItem {
+    commitment: Commitment;
+    proof: Proof;
+    index: number | bigint;
+    value: bigint;
+}
+
+/*
+ * A multiplicative subgroup of the field of order size, optionally shifted by
+ * cosetOffset, such that index i refers to the x-value
+ * cosetOffset * generator^i.
+ */
+interface EvaluationDomain {
+    size: number;
+    generator: bigint;
+    generatorInv: bigint;
+    cosetOffset: bigint;
+}
+
+type ProofScheme = 'kzg' | 'kzg-multi'
+
+/*
+ * A proof that the polynominal committed to evaluates to values[i] at
+ * indices[i], with everything needed to verify it. If scheme is 'kzg', there
+ * is one index and the proof is from genProof(). If it is 'kzg-multi', the
+ * proof is from genMultiProof().
+ */
+interface ProofBundle {
+    scheme: ProofScheme;
+    commitment: Commitment;
+    proof: Proof | MultiProof;
+    indices: bigint[];
+    values: bigint[];
+    domain?: EvaluationDomain;
+}
+
 // The number of G1 points from the SRS stored in Constants.sol
 const MAX_G1_SOL_POINTS = 128
 
+// The version of the JSON format written by exportProofBundle()
+const PROOF_BUNDLE_VERSION = 1
+
+// Below this number of points, multiScalarMul() falls back to double-and-add
+const MSM_THRESHOLD = 8
+
+// From this number of points, polynominal arithmetic uses the NTT instead of
+// galois' quadratic algorithms
+const NTT_THRESHOLD = 256
+
 const G1 = ffjavascript.bn128.G1
 const G2 = ffjavascript.bn128.G2
 
@@ -30,76 +159,116 @@ const genBabyJubField = () => {
     return galois.createPrimeField(FIELD_SIZE)
 }
 
-const srsg1DataRaw = require('@libkzg/taug1_65536.json')
-const srsg2DataRaw = require('@libkzg/taug2_65536.json')
+/*
+ * @return An evaluation domain of the given size, where index i refers to the
+ *         x-value cosetOffset * w^i, and w is a primitive size-th root of
+ *         unity.
+ * @param size The number of points in the domain. Must be a power of 2 no
+ *             larger than 2^28.
+ * @param cosetOffset The value by which to shift the domain. Defaults to 1,
+ *                    which means that the domain is the subgroup itself.
+ * @param p The field size. Defaults to the BabyJub field size.
+ */
+const genEvaluationDomain = (
+    size: number,
+    cosetOffset: bigint = BigInt(1),
+    p: bigint = FIELD_SIZE,
+): EvaluationDomain => {
+    if (!isPowerOfTwo(size) || size > 2 ** MAX_NTT_LOG_SIZE) {
+        throw new InvalidArgumentError(
+            'size',
+            `The size of an evaluation domain must be a power of 2 no larger than 2^${MAX_NTT_LOG_SIZE}`,
+        )
+    }
+    if (cosetOffset <= BigInt(0) || cosetOffset >= p) {
+        throw new InvalidFieldElementError(
+            cosetOffset,
+            p,
+            'The coset offset must be a non-zero field element',
+        )
+    }
+
+    const field = galois.createPrimeField(p)
+    const generator = getRootOfUnity(field, size)
+    return {
+        size,
+        generator,
+        generatorInv: field.inv(generator),
+        cosetOffset,
+    }
+}
 
 /*
- * @return Up to 65536 G1 values of the structured reference string.
- * These values were taken from challenge file #46 of the Perpetual Powers of
- * Tau ceremony. The Blake2b hash of challenge file is:
- *
- * 939038cd 2dc5a1c0 20f368d2 bfad8686 
- * 950fdf7e c2d2e192 a7d59509 3068816b
- * becd914b a293dd8a cb6d18c7 b5116b66 
- * ea54d915 d47a89cc fbe2d5a3 444dfbed
- *
- * The challenge file can be retrieved at:
- * https://ppot.blob.core.windows.net/public/challenge_0046
- *
- * The ceremony transcript can be retrieved at:
- * https://github.com/weijiekoh/perpetualpowersoftau
- *
- * Anyone can verify the transcript to ensure that the values in the challenge
- * file have not been tampered with. Moreover, as long as one participant in
- * the ceremony has discarded their toxic waste, the whole ceremony is secure.
- * Please read the following for more information:
- * https://medium.com/coinmonks/announcing-the-perpetual-powers-of-tau-ceremony-to-benefit-all-zk-snark-projects-c3da86af8377
+ * @return The x-value which the given index refers to in the evaluation
+ *         domain. If no domain is given, the x-value is the index itself.
  */
-const srsG1 = (depth: number): G1Point[] => {
-    assert(depth > 0)
-    assert(depth <= 65536)
+const genDomainPoint = (
+    index: number | bigint,
+    domain?: EvaluationDomain,
+    p: bigint = FIELD_SIZE,
+): bigint => {
+    if (domain === undefined) {
+        return toFieldElement(index, p)
+    }
 
-    const g1: G1Point[] = []
-    for (let i = 0; i < depth; i ++) {
-        g1.push([
-            BigInt(srsg1DataRaw[i][0]),
-            BigInt(srsg1DataRaw[i][1]),
-            BigInt(1),
-        ])
+    if (BigInt(index) < BigInt(0) || BigInt(index) >= BigInt(domain.size)) {
+        throw new InvalidArgumentError(
+            'index',
+            `The index ${index} is outside of the evaluation domain of size ${domain.size}`,
+        )
     }
 
-    assert(g1[0][0] === G1.g[0])
-    assert(g1[0][1] === G1.g[1])
-    assert(g1[0][2] === G1.g[2])
+    const field = galois.createPrimeField(p)
+    return field.mul(
+        domain.cosetOffset,
+        field.exp(domain.generator, BigInt(index)),
+    )
+}
 
-    return g1
+/*
+ * @return The x-values which the given indices refer to in the evaluation
+ *         domain.
+ */
+const genDomainPoints = (
+    indices: number[] | bigint[],
+    domain?: EvaluationDomain,
+    p: bigint = FIELD_SIZE,
+): bigint[] => {
+    const xVals: bigint[] = []
+    for (let i = 0; i < indices.length; i ++) {
+        xVals.push(genDomainPoint(indices[i], domain, p))
+    }
+    return xVals
 }
 
 /*
- * @return Up to 65536 G2 values of the structured reference string.
- * They were taken from challenge file #46 of the Perpetual Powers of
- * Tau ceremony as described above.
+ * @return True if polynominals with n coefficients or points in the given
+ *         field should be handled with the NTT. This is only possible in the
+ *         BabyJub field, which has a 2^28-th root of unity.
  */
-const srsG2 = (depth: number): G2Point[] => {
-    assert(depth > 0)
-    assert(depth <= 65536)
+const useNTT = (
+    field: galois.FiniteField,
+    n: number,
+): boolean => {
+    return n >= NTT_THRESHOLD && field.characteristic === FIELD_SIZE
+}
 
-    const g2: G2Point[] = []
-    for (let i = 0; i < depth; i ++) {
-        g2.push([
-            [ srsg2DataRaw[i][0], srsg2DataRaw[i][1] ].map(BigInt),
-            [ srsg2DataRaw[i][2], srsg2DataRaw[i][3] ].map(BigInt),
-            [ BigInt(1), BigInt(0) ],
-        ])
+/*
+ * @return The polynominal which intersects each point (xs[i], ys[i]).
+ */
+const interpolate = (
+    field: galois.FiniteField,
+    xs: bigint[],
+    ys: bigint[],
+): galois.Vector => {
+    if (useNTT(field, xs.length)) {
+        return field.newVectorFrom(interpolateNTT(field, xs, ys))
     }
-    assert(g2[0][0][0] === G2.g[0][0])
-    assert(g2[0][0][1] === G2.g[0][1])
-    assert(g2[0][1][0] === G2.g[1][0])
-    assert(g2[0][1][1] === G2.g[1][1])
-    assert(g2[0][2][0] === G2.g[2][0])
-    assert(g2[0][2][1] === G2.g[2][1])
 
-    return g2
+    return field.interpolate(
+        field.newVectorFrom(xs),
+        field.newVectorFrom(ys),
+    )
 }
 
 /*
@@ -107,33 +276,112 @@ const srsG2 = (depth: number): G2Point[] => {
  * @param coefficients The coefficients of the polynomial to commit. To
  *        generate these coefficients from arbitary values, use
  *        genCoefficients().
- * @param p The field size. Defaults to the BabyJub field size.
+ * @param srs The structured reference string. Defaults to defaultSRS.
  */
 const commit = (
     coefficients: bigint[],
+    srs: SRS = defaultSRS,
 ): Commitment => {
-    const srs = srsG1(coefficients.length)
-    return polyCommit(coefficients, G1, srs)
+    return polyCommit(coefficients, G1, srs.g1(coefficients.length))
 }
 
+/*
+ * @return The commitment to a polynominal in G1 or G2. Each coefficient is
+ *         reduced modulo FIELD_SIZE, so negative coefficients are committed
+ *         to as FIELD_SIZE minus their absolute value.
+ */
 const polyCommit = (
     coefficients: bigint[],
     G: G1Point | G2Point,
     srs: G1Point[] | G2Point[],
 ): G1Point | G2Point => {
-    let result = G.zero
-    for (let i = 0; i < coefficients.length; i ++) {
-        let coeff = BigInt(coefficients[i])
-        assert(coeff >= BigInt(0))
+    const scalars = coefficients.map((c) => toFieldElement(c))
+
+    // Only normalise the result to affine form once, at the very end
+    return G.affine(multiScalarMul(G, srs, scalars))
+}
+
+/*
+ * @return The number of bits per window to use in multiScalarMul() for the
+ *         given number of points. This is roughly ln(n) + 2, which is the
+ *         heuristic used by most Pippenger implementations.
+ */
+const msmWindowSize = (n: number): number => {
+    if (n < 32) {
+        return 3
+    }
+    return Math.floor(Math.log2(n) * 69 / 100) + 2
+}
+
+/*
+ * @return The sum of points[i] * scalars[i] for each i, computed using
+ *         Pippenger's bucket method. All intermediate values are kept in
+ *         Jacobian coordinates, so the result is not in affine form.
+ * @param G The group (G1 or G2) which the points belong to.
+ * @param points The points to multiply. There must be at least as many
+ *               points as scalars.
+ * @param scalars The non-negative scalars to multiply each point by.
+ */
+const multiScalarMul = (
+    G: G1Point | G2Point,
+    points: G1Point[] | G2Point[],
+    scalars: bigint[],
+): G1Point | G2Point => {
+    assert(points.length >= scalars.length)
+
+    // For a handful of points, plain double-and-add is cheaper than filling
+    // and summing the buckets
+    if (scalars.length < MSM_THRESHOLD) {
+        let result = G.zero
+        for (let i = 0; i < scalars.length; i ++) {
+            result = G.add(result, G.mulScalar(points[i], scalars[i]))
+        }
+        return result
+    }
+
+    let maxScalar = BigInt(0)
+    for (const scalar of scalars) {
+        assert(scalar >= BigInt(0))
+        if (scalar > maxScalar) {
+            maxScalar = scalar
+        }
+    }
+    if (maxScalar === BigInt(0)) {
+        return G.zero
+    }
 
-        result = G.affine(G.add(result, G.mulScalar(srs[i], coeff)))
+    const c = msmWindowSize(scalars.length)
+    const numBuckets = (1 << c) - 1
+    const numWindows = Math.ceil(maxScalar.toString(2).length / c)
+    const mask = (BigInt(1) << BigInt(c)) - BigInt(1)
 
-        //if (coeff < 0) {
-            //coeff = BigInt(-1) * coeff
-            //result = G.affine(G.add(result, G.neg(G.mulScalar(srs[i], coeff))))
-        //} else {
-            //result = G.affine(G.add(result, G.mulScalar(srs[i], coeff)))
-        //}
+    let result = G.zero
+    for (let w = numWindows - 1; w >= 0; w --) {
+        for (let i = 0; i < c; i ++) {
+            result = G.double(result)
+        }
+
+        // Sort each point into the bucket given by the current window of
+        // its scalar
+        const shift = BigInt(w * c)
+        const buckets = new Array(numBuckets).fill(G.zero)
+        for (let i = 0; i < scalars.length; i ++) {
+            const digit = Number((scalars[i] >> shift) & mask)
+            if (digit !== 0) {
+                buckets[digit - 1] = G.add(buckets[digit - 1], points[i])
+            }
+        }
+
+        // Compute sum(j * buckets[j - 1]) with a running sum so that only
+        // additions are needed
+        let runningSum = G.zero
+        let windowSum = G.zero
+        for (let j = numBuckets - 1; j >= 0; j --) {
+            runningSum = G.add(runningSum, buckets[j])
+            windowSum = G.add(windowSum, runningSum)
+        }
+
+        result = G.add(result, windowSum)
     }
 
     return result
@@ -142,7 +390,8 @@ const polyCommit = (
 /*
  * @return A the coefficients to the quotient polynomial used to generate a
  *         KZG proof.
- * @param coefficients The coefficients of the polynomial.
+ * @param coefficients The coefficients of the polynomial. Each is reduced
+ *                     modulo p, so they may be negative.
  * @param xVal The x-value for the polynomial evaluation proof.
  * @param p The field size. Defaults to the BabyJub field size.
  */
@@ -152,6 +401,29 @@ const genQuotientPolynomial = (
     p: bigint = FIELD_SIZE,
 ): Coefficient[] => {
     const field = galois.createPrimeField(p)
+    coefficients = coefficients.map((c) => toFieldElement(c, p))
+    xVal = toFieldElement(xVal, p)
+
+    // The quotient of a constant polynominal is 0, which galois cannot
+    // divide
+    if (!coefficients.slice(1).some((c) => c !== BigInt(0))) {
+        return [BigInt(0)]
+    }
+
+    if (useNTT(field, coefficients.length)) {
+        // Dividing by a linear polynominal only needs synthetic division,
+        // which takes O(n) operations. The remainder is p(xVal), which is
+        // discarded.
+        const z = xVal
+        const quotient: bigint[] = new Array(coefficients.length - 1)
+        let carry = BigInt(0)
+        for (let i = coefficients.length - 1; i > 0; i --) {
+            carry = (BigInt(coefficients[i]) + carry * z) % p
+            quotient[i - 1] = carry
+        }
+        return quotient
+    }
+
     const poly = field.newVectorFrom(coefficients)
 
     const yVal = field.evalPolyAt(poly, xVal)
@@ -171,22 +443,267 @@ const genQuotientPolynomial = (
  * @return A KZG commitment proof of evaluation at a single point.
  * @param coefficients The coefficients of the polynomial associated with the
  *                     KZG commitment.
- * @param index The x-value for the polynomial evaluation proof.
+ * @param index The x-value for the polynomial evaluation proof, or the
+ *              index of the x-value if an evaluation domain is given.
  * @param p The field size. Defaults to the BabyJub field size.
+ * @param domain The evaluation domain, if any.
+ * @param srs The structured reference string. Defaults to defaultSRS.
  */
 const genProof = (
     coefficients: Coefficient[],
     index: number | bigint,
     p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
+): Proof => {
+    const xVal = genDomainPoint(index, domain, p)
+    const quotient = genQuotientPolynomial(coefficients, xVal, p)
+    return commit(quotient, srs)
+}
+
+/*
+ * @return A KZG commitment proof of evaluation at every x-value of the
+ *         evaluation domain, such that the i-th proof equals
+ *         genProof(coefficients, i, FIELD_SIZE, domain). This uses the
+ *         Feist-Khovratovich (FK20) technique, which takes O(n log n) group
+ *         operations rather than the O(n^2) of calling genProof() n times.
+ *         See: https://github.com/khovratovich/Kate/blob/master/Kate_amortized.pdf
+ * @param coefficients The coefficients of the polynomial associated with the
+ *                     KZG commitment. There must be at least 2.
+ * @param domain The evaluation domain.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const genAllProofs = (
+    coefficients: Coefficient[],
+    domain: EvaluationDomain,
+    srs: SRS = defaultSRS,
+): Proof[] => {
+    if (coefficients.length < 2) {
+        throw new InvalidArgumentError('coefficients', 'At least 2 coefficients are needed')
+    }
+
+    // The proof at z is the commitment to the quotient polynominal
+    //     q_z(x) = sum(x^i * sum(f_j * z^(j - i - 1) for j > i))
+    // which can be rearranged as sum(z^m * h_m), where
+    //     h_m = sum(f_(m + 1 + l) * srs[l] for 0 <= l < d - m)
+    // and d is the degree of the polynominal f. The vector h is a Toeplitz
+    // matrix-vector product, which is computed as a convolution via the NTT.
+    // The proofs are then the NTT of h over the domain.
+    const field = genBabyJubField()
+    const d = coefficients.length - 1
+    const srsPoints = srs.g1(d)
+    const n = nextPowerOfTwo(2 * d - 1)
+    const root = getRootOfUnity(field, n)
+
+    // h_m = (a * srs)_(d - 1 - m) where a_k = f_(d - k)
+    const a: bigint[] = new Array(n).fill(BigInt(0))
+    for (let k = 0; k < d; k ++) {
+        a[k] = BigInt(coefficients[d - k])
+    }
+    const s: G1Point[] = new Array(n).fill(G1.zero)
+    for (let l = 0; l < d; l ++) {
+        s[l] = srsPoints[l]
+    }
+
+    const aHat = ntt(field, a, root)
+    const sHat = groupNtt(field, G1, s, root)
+    const product: G1Point[] = []
+    for (let i = 0; i < n; i ++) {
+        product.push(G1.mulScalar(sHat[i], aHat[i]))
+    }
+    const convolution = groupIntt(field, G1, product, root)
+
+    // Evaluate sum(z^m * h_m) at each z = cosetOffset * w^k. As w^n = 1,
+    // each h_m is folded into position m mod n after it is scaled by
+    // cosetOffset^m.
+    const h: G1Point[] = new Array(domain.size).fill(G1.zero)
+    let scale = field.one
+    for (let m = 0; m < d; m ++) {
+        let hm = convolution[d - 1 - m]
+        if (scale !== field.one) {
+            hm = G1.mulScalar(hm, scale)
+        }
+        h[m % domain.size] = G1.add(h[m % domain.size], hm)
+        scale = field.mul(scale, domain.cosetOffset)
+    }
+
+    const proofs = groupNtt(field, G1, h, domain.generator)
+    G1.multiAffine(proofs)
+    return proofs
+}
+
+/*
+ * @return The pairing e(a, b). Unlike ffjavascript's pairing(), this accepts
+ *         the point at infinity, for which the result is 1, so that the
+ *         zero polynominal has a valid commitment and proofs.
+ */
+const pairing = (
+    a: G1Point,
+    b: G2Point,
+) => {
+    const bn = ffjavascript.bn128
+    if (G1.eq(a, G1.zero) || G2.eq(b, G2.zero)) {
+        return bn.F12.one
+    }
+    return bn.pairing(G1.affine(a), G2.affine(b))
+}
+
+/*
+ * @return x reduced modulo p, in the range [0, p).
+ */
+const reduce = (
+    x: bigint,
+    p: bigint = FIELD_SIZE,
+): bigint => {
+    return ((x % p) + p) % p
+}
+
+/*
+ * @return A coefficient, value, or index as an element of the field, i.e.
+ *         reduced modulo p, so that negative values are allowed. Throws if the
+ *         value is not an integer.
+ * @param x A bigint, or a number which is a safe integer.
+ * @param p The field size. Defaults to the BabyJub field size.
+ */
+const toFieldElement = (
+    x: bigint | number,
+    p: bigint = FIELD_SIZE,
+): bigint => {
+    if (typeof x === 'number' && !Number.isSafeInteger(x)) {
+        throw new InvalidFieldElementError(x, p, `${x} is not an integer, so it cannot be reduced to a field element`)
+    }
+    if (typeof x !== 'number' && typeof x !== 'bigint') {
+        throw new InvalidFieldElementError(x, p, `${x} is not a bigint, so it cannot be reduced to a field element`)
+    }
+    return reduce(BigInt(x), p)
+}
+
+/*
+ * @return A challenge for genBatchProof() and verifyBatch(), which is
+ *         squeezed from a Transcript which absorbs the commitments, index,
+ *         and values.
+ */
+const genBatchChallenge = (
+    commitments: Commitment[],
+    index: number | bigint,
+    values: bigint[],
+): bigint => {
+    if (commitments.length !== values.length) {
+        throw new InvalidArgumentError('values', 'There must be as many values as commitments')
+    }
+
+    const transcript = new Transcript('libkzg-batch')
+    for (const commitment of commitments) {
+        transcript.absorbG1('commitment', commitment)
+    }
+    transcript.absorbFieldElement('index', reduce(BigInt(index)))
+    for (const value of values) {
+        transcript.absorbFieldElement('value', reduce(BigInt(value)))
+    }
+
+    return transcript.squeezeChallenge('challenge')
+}
+
+/*
+ * @return A single KZG commitment proof of evaluation at the same point for
+ *         multiple polynominals. The quotient polynominals of each
+ *         polynominal are combined as sum(challenge^i * q_i), and the proof
+ *         is the commitment to the result.
+ * @param polys The coefficients of each polynominal.
+ * @param index The x-value for the polynomial evaluation proof.
+ * @param challenge The value with which to combine the quotient
+ *                  polynominals. If it is not given, it is derived by hashing
+ *                  the commitments, index, and evaluations with
+ *                  genBatchChallenge().
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const genBatchProof = (
+    polys: Coefficient[][],
+    index: number | bigint,
+    challenge?: bigint,
+    srs: SRS = defaultSRS,
 ): Proof => {
-    const quotient = genQuotientPolynomial(coefficients, BigInt(index), p)
-    return commit(quotient)
+    if (polys.length === 0) {
+        throw new InvalidArgumentError('polys', 'At least one polynominal is needed')
+    }
+
+    const field = genBabyJubField()
+    const xVal = BigInt(index)
+
+    if (challenge === undefined) {
+        const commitments = polys.map((poly) => commit(poly, srs))
+        const values = polys.map(
+            (poly) => field.evalPolyAt(field.newVectorFrom(poly), xVal),
+        )
+        challenge = genBatchChallenge(commitments, index, values)
+    }
+
+    let combined: bigint[] = []
+    let scale = field.one
+    for (const poly of polys) {
+        const quotient = genQuotientPolynomial(poly, xVal)
+        for (let i = 0; i < quotient.length; i ++) {
+            const term = field.mul(scale, quotient[i])
+            combined[i] = i < combined.length ? field.add(combined[i], term) : term
+        }
+        scale = field.mul(scale, challenge)
+    }
+
+    return commit(combined, srs)
+}
+
+/*
+ * Returns true if the proof generated by genBatchProof() (that for each
+ * polynominal committed to, the evaluation at the given index equals the
+ * respective value) is valid, and false otherwise. The commitments and values
+ * are combined with the same challenge as the quotient polynominals, and the
+ * result is checked with verify().
+ */
+const verifyBatch = (
+    commitments: Commitment[],
+    proof: Proof,
+    index: number | bigint,
+    values: bigint[],
+    challenge?: bigint,
+    srs: SRS = defaultSRS,
+): boolean => {
+    if (commitments.length === 0) {
+        throw new InvalidArgumentError('commitments', 'At least one commitment is needed')
+    }
+    if (commitments.length !== values.length) {
+        throw new InvalidArgumentError('values', 'There must be as many values as commitments')
+    }
+
+    const field = genBabyJubField()
+    if (challenge === undefined) {
+        challenge = genBatchChallenge(commitments, index, values)
+    }
+
+    const scalars: bigint[] = []
+    let value = field.zero
+    let scale = field.one
+    for (let i = 0; i < commitments.length; i ++) {
+        scalars.push(scale)
+        value = field.add(value, field.mul(scale, BigInt(values[i])))
+        scale = field.mul(scale, challenge)
+    }
+    const commitment = G1.affine(multiScalarMul(G1, commitments, scalars))
+
+    return verify(commitment, proof, index, value, FIELD_SIZE, undefined, srs)
 }
 
 const genZeroPoly = (
     field: galois.FiniteField,
     indices: number[] | bigint[],
 ): galois.Vector => {
+    if (useNTT(field, indices.length)) {
+        const xs: bigint[] = []
+        for (let i = 0; i < indices.length; i ++) {
+            xs.push(BigInt(indices[i]))
+        }
+        return field.newVectorFrom(genZeroPolyNTT(field, xs))
+    }
+
     let zPoly = field.newVectorFrom([
         // @ts-ignore
         field.mod(BigInt(-1) * BigInt(indices[0])),
@@ -215,54 +732,162 @@ const genInterpolatingPoly = (
     const values: bigint[] = []
 
     for (let i = 0; i < indices.length; i ++) {
-        const index = BigInt(indices[i])
-        const yVal = field.evalPolyAt(poly, index)
-        x.push(index)
-        values.push(yVal)
+        x.push(BigInt(indices[i]))
     }
 
-    const iPoly = field.interpolate(
-        field.newVectorFrom(x),
-        field.newVectorFrom(values),
-    )
+    if (useNTT(field, indices.length)) {
+        values.push(...evalPolyAtPointsNTT(field, poly.toValues(), x))
+    } else {
+        for (const index of x) {
+            values.push(field.evalPolyAt(poly, index))
+        }
+    }
 
-    return iPoly
+    return interpolate(field, x, values)
 }
 
 /*
  * @return A KZG commitment proof of evaluation at multiple points.
  * @param coefficients The coefficients of the polynomial associated with the
  *                     KZG commitment.
- * @param indices The x-values for the polynomial evaluation proof.
+ * @param indices The x-values for the polynomial evaluation proof, or the
+ *                indices of the x-values if an evaluation domain is given.
  * @param p The field size. Defaults to the BabyJub field size.
+ * @param domain The evaluation domain, if any.
+ * @param srs The structured reference string. Defaults to defaultSRS.
  */
 const genMultiProof = (
     coefficients: Coefficient[],
     indices: number[] | bigint[],
     p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
 ): MultiProof => {
-    assert(coefficients.length > indices.length)
+    const qPolyCoeffs = genMultiQuotientPolynomial(coefficients, indices, p, domain)
+    const multiProof = polyCommit(qPolyCoeffs, G2, srs.g2(qPolyCoeffs.length))
+
+    return multiProof
+}
+
+/*
+ * @return The coefficients of the quotient polynominal
+ *         (poly - iPoly) / zPoly, where iPoly interpolates the polynominal
+ *         at the given indices and zPoly intersects y=0 at each index.
+ */
+const genMultiQuotientPolynomial = (
+    coefficients: Coefficient[],
+    indices: number[] | bigint[],
+    p: bigint,
+    domain?: EvaluationDomain,
+): Coefficient[] => {
+    if (coefficients.length <= indices.length) {
+        throw new TooManyPointsError(
+            indices.length,
+            coefficients.length - 1,
+            `A polynominal of degree ${coefficients.length - 1} cannot be opened at ${indices.length} points`,
+        )
+    }
 
     const field = galois.createPrimeField(p)
-    const poly = field.newVectorFrom(coefficients)
+    const poly = field.newVectorFrom(coefficients.map((c) => toFieldElement(c, p)))
+    const xVals = genDomainPoints(indices, domain, p)
+
+    const iPoly = genInterpolatingPoly(field, poly, xVals)
+    const zPoly = genZeroPoly(field, xVals)
+    const numerator = field.subPolys(poly, iPoly)
+
+    // As zPoly divides the numerator, a numerator of a lower degree is 0,
+    // which galois cannot divide
+    if (!numerator.toValues().slice(xVals.length).some((c) => c !== BigInt(0))) {
+        return [BigInt(0)]
+    }
+
+    if (useNTT(field, coefficients.length)) {
+        return divPolysNTT(field, numerator.toValues(), zPoly.toValues())
+    }
+    return field.divPolys(numerator, zPoly).toValues()
+}
+
+/*
+ * @return A KZG commitment proof of evaluation at multiple points, in G1
+ *         rather than G2. This makes the proof half the size of one from
+ *         genMultiProof(), but the verifier has to commit to the zero
+ *         polynominal in G2 instead of G1. See verifyMultiG1().
+ * @param coefficients The coefficients of the polynomial associated with the
+ *                     KZG commitment.
+ * @param indices The x-values for the polynomial evaluation proof, or the
+ *                indices of the x-values if an evaluation domain is given.
+ * @param p The field size. Defaults to the BabyJub field size.
+ * @param domain The evaluation domain, if any.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const genMultiProofG1 = (
+    coefficients: Coefficient[],
+    indices: number[] | bigint[],
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
+): MultiProofG1 => {
+    const qPolyCoeffs = genMultiQuotientPolynomial(coefficients, indices, p, domain)
+    return commit(qPolyCoeffs, srs)
+}
+
+/*
+ * @return A commitment in G2 to the polynominal which intersects y=0 at each
+ *         of the given x-values.
+ */
+const genZeroPolyCommitmentG2 = (
+    field: galois.FiniteField,
+    xVals: bigint[],
+    srs: SRS,
+): G2Point => {
+    const zPoly = genZeroPoly(field, xVals).toValues()
+    return polyCommit(zPoly, G2, srs.g2(zPoly.length))
+}
+
+/*
+ * Returns true if the proof generated by genMultiProofG1() (that for the
+ * polynomial committed to, the evaluation at the given indices equals the
+ * respective value) is valid, and false otherwise. If an evaluation domain
+ * is given, the indices refer to x-values in the domain.
+ */
+const verifyMultiG1 = (
+    commitment: Commitment,
+    proof: MultiProofG1,
+    indices: number[] | bigint[],
+    values: bigint[],
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
+) => {
+    const field = galois.createPrimeField(p)
+    const xVals = genDomainPoints(indices, domain, p)
+
+    const iPoly = interpolate(field, xVals, values)
+
+    // e(proof, commit_G2(zPoly)) = e(commitment - commit(iPoly), g)
+
+    const zCommit = genZeroPolyCommitmentG2(field, xVals, srs)
+    const iCommit = commit(iPoly.toValues(), srs)
 
-    const iPoly = genInterpolatingPoly(field, poly, indices)
-    const zPoly = genZeroPoly(field, indices)
-    const qPoly = field.divPolys(
-        field.subPolys(poly, iPoly),
-        zPoly,
+    const lhs = pairing(
+        G1.affine(proof),
+        G2.affine(zCommit),
     )
 
-    const qPolyCoeffs = qPoly.toValues()
-    const multiProof = polyCommit(qPolyCoeffs, G2, srsG2(qPolyCoeffs.length))
+    const rhs = pairing(
+        G1.affine(G1.sub(commitment, iCommit)),
+        G2.g,
+    )
 
-    return multiProof
+    return ffjavascript.bn128.F12.eq(lhs, rhs)
 }
 
 /*
  * Returns true if the proof (that for the polynomial committed to, the
  * evaluation at the given indices equals the respective value) is valid, and
- * false otherwise.
+ * false otherwise. If an evaluation domain is given, the indices refer to
+ * x-values in the domain.
  */
 const verifyMulti = (
     commitment: Commitment,
@@ -270,31 +895,26 @@ const verifyMulti = (
     indices: number[] | bigint[],
     values: bigint[],
     p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
 ) => {
     const field = galois.createPrimeField(p)
-    const xVals: bigint[] = []
+    const xVals = genDomainPoints(indices, domain, p)
 
-    for (let i = 0; i < indices.length; i ++) {
-        const index = BigInt(indices[i])
-        xVals.push(index)
-    }
-    const iPoly = field.interpolate(
-        field.newVectorFrom(xVals),
-        field.newVectorFrom(values),
-    )
-    const zPoly = genZeroPoly(field, indices)
+    const iPoly = interpolate(field, xVals, values)
+    const zPoly = genZeroPoly(field, xVals)
 
     // e(proof, commit(zPoly)) = e(commitment - commit(iPoly), g)
 
-    const zCommit = commit(zPoly.toValues())
-    const iCommit = commit(iPoly.toValues())
+    const zCommit = commit(zPoly.toValues(), srs)
+    const iCommit = commit(iPoly.toValues(), srs)
 
-    const lhs = ffjavascript.bn128.pairing(
+    const lhs = pairing(
         G1.affine(zCommit),
         G2.affine(proof),
     )
 
-    const rhs = ffjavascript.bn128.pairing(
+    const rhs = pairing(
         G1.affine(G1.sub(commitment, iCommit)),
         G2.g,
     )
@@ -305,7 +925,8 @@ const verifyMulti = (
 /*
  * Returns true if the proof (that for the polynomial committed to, the
  * evaluation at the given index equals the given value) is valid, and false
- * otherwise.
+ * otherwise. If an evaluation domain is given, the index refers to an x-value
+ * in the domain.
  */
 const verify = (
     commitment: Commitment,
@@ -313,6 +934,8 @@ const verify = (
     index: number | bigint,
     value: bigint,
     p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
 ): boolean => {
     // To verify the proof, use the following equation:
     // (p - a) == proof * (x - z)
@@ -325,14 +948,14 @@ const verify = (
     // zCommit = commit([_index]) = SRS_G2_1 * _index
     // e((index * proof) + (commitment - aCommit), G2.g) == e(proof, xCommit)
     //
-    index = BigInt(index)
+    index = genDomainPoint(index, domain, p)
     const field = galois.createPrimeField(p)
-    const srs = srsG2(2)
+    const srsPoints = srs.g2(2)
     
-    const aCommit = commit([BigInt(value)])
-    const xCommit = srs[1] // polyCommit(x.toValues(), G2, srs)
+    const aCommit = commit([BigInt(value)], srs)
+    const xCommit = srsPoints[1] // polyCommit(x.toValues(), G2, srs)
 
-    const lhs = ffjavascript.bn128.pairing(
+    const lhs = pairing(
         G1.affine(
             G1.add(
                 G1.mulScalar(proof, index), // index * proof
@@ -342,41 +965,150 @@ const verify = (
         G2.g,
     )
 
-    const rhs = ffjavascript.bn128.pairing(
+    const rhs = pairing(
         G1.affine(proof),
-        srs[1], // xCommit
+        srsPoints[1], // xCommit
     )
 
     return ffjavascript.bn128.F12.eq(lhs, rhs)
 }
 
-const verifyViaEIP197 = (
-    commitment: Commitment,
-    proof: Proof,
-    index: number | bigint,
-    value: bigint,
+/*
+ * @return A random blinding polynominal for commitHiding() with the given
+ *         number of coefficients. The commitment and proofs reveal nothing
+ *         about the committed polynominal as long as fewer than this many
+ *         proofs are made.
+ * @param length The number of coefficients.
+ * @param p The field size. Defaults to the BabyJub field size.
+ */
+const genBlindingPolynomial = (
+    length: number,
     p: bigint = FIELD_SIZE,
-) => {
-    // Check that:
-    // e(commitment - aCommitment, G2.g) == e(proof, xCommit - yCommit)
-    // which is equivalent to
-    // e(commitment - aCommitment, G2.g) * e(-proof, xCommit) * e(index * proof, G2.g) == 1
-    // which is equivalent to
-    // e((index * proof) + (commitment - aCommitment), G2.g) * e(-proof, xCommit) == 1
-    // as this is what the Solidity verifier needs to check
+): Coefficient[] => {
+    if (length < 1) {
+        throw new InvalidArgumentError('length', 'A blinding polynominal needs at least one coefficient')
+    }
     const field = galois.createPrimeField(p)
-    const srs = srsG2(2)
-
-    const a = field.newVectorFrom([value].map(BigInt))
-    const aCommit = commit(a.toValues())
-    const x = field.newVectorFrom([0, 1].map(BigInt))
-    const xCommit = polyCommit(x.toValues(), G2, srs)
+    const blinding: Coefficient[] = []
+    for (let i = 0; i < length; i ++) {
+        blinding.push(field.rand())
+    }
+    return blinding
+}
 
-    const z = field.newVectorFrom([index].map(BigInt))
-    const zCommit = polyCommit(z.toValues(), G2, srs)
+/*
+ * @return A hiding KZG commitment to a polynominal, as in section 3.3 of the
+ *         KZG10 paper: commit(coefficients) plus the commitment to the
+ *         blinding polynominal against the second generator of the SRS.
+ *         Unlike commit(), two commitments to the same polynominal with
+ *         different blinding polynominals are unrelated.
+ * @param coefficients The coefficients of the polynomial to commit.
+ * @param blinding The coefficients of the blinding polynominal, from
+ *                 genBlindingPolynomial().
+ * @param srs A structured reference string with the powers of the second
+ *            generator.
+ */
+const commitHiding = (
+    coefficients: Coefficient[],
+    blinding: Coefficient[],
+    srs: HidingSRS,
+): Commitment => {
+    return G1.affine(G1.add(
+        commit(coefficients, srs),
+        polyCommit(blinding, G1, srs.h(blinding.length)),
+    ))
+}
 
-    const inputs = [
-        {
+/*
+ * @return A proof of evaluation at one point for a hiding commitment from
+ *         commitHiding(). Besides the proof, it reveals the evaluation of the
+ *         blinding polynominal at the point.
+ * @param coefficients The coefficients of the polynomial committed to.
+ * @param blinding The coefficients of the blinding polynominal.
+ * @param index The x-value for the polynomial evaluation proof, or the
+ *              index of the x-value if an evaluation domain is given.
+ * @param srs A structured reference string with the powers of the second
+ *            generator.
+ * @param p The field size. Defaults to the BabyJub field size.
+ * @param domain The evaluation domain, if any.
+ */
+const genHidingProof = (
+    coefficients: Coefficient[],
+    blinding: Coefficient[],
+    index: number | bigint,
+    srs: HidingSRS,
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+): HidingProof => {
+    const field = galois.createPrimeField(p)
+    const xVal = genDomainPoint(index, domain, p)
+    const blindingValue = field.evalPolyAt(field.newVectorFrom(blinding), xVal)
+
+    let proof = genProof(coefficients, xVal, p, undefined, srs)
+    if (blinding.length > 1) {
+        const quotient = genQuotientPolynomial(blinding, xVal, p)
+        proof = G1.affine(G1.add(
+            proof,
+            polyCommit(quotient, G1, srs.h(quotient.length)),
+        ))
+    }
+    return { proof, blindingValue }
+}
+
+/*
+ * Returns true if the proof from genHidingProof() (that for the polynominal
+ * committed to by commitHiding(), the evaluation at the given index equals
+ * the given value) is valid, and false otherwise. This is verify() with
+ * blindingValue * H subtracted from the commitment.
+ */
+const verifyHiding = (
+    commitment: Commitment,
+    proof: HidingProof,
+    index: number | bigint,
+    value: bigint,
+    srs: HidingSRS,
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+): boolean => {
+    const blindingCommit = G1.mulScalar(srs.h(1)[0], BigInt(proof.blindingValue))
+    return verify(
+        G1.sub(commitment, blindingCommit),
+        proof.proof,
+        index,
+        value,
+        p,
+        domain,
+        srs,
+    )
+}
+
+/*
+ * Returns the same result as verify(), but checks the pairing in the form
+ * which the Solidity verifier uses, with the EIP-197 precompile. If an
+ * evaluation domain is given, the index refers to an x-value in the domain.
+ */
+const verifyViaEIP197 = (
+    commitment: Commitment,
+    proof: Proof,
+    index: number | bigint,
+    value: bigint,
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
+) => {
+    // Check that:
+    // e(commitment - aCommitment, G2.g) == e(proof, xCommit - yCommit)
+    // which is equivalent to
+    // e(commitment - aCommitment, G2.g) * e(-proof, xCommit) * e(index * proof, G2.g) == 1
+    // which is equivalent to
+    // e((index * proof) + (commitment - aCommitment), G2.g) * e(-proof, xCommit) == 1
+    // as this is what the Solidity verifier needs to check
+    index = genDomainPoint(index, domain, p)
+    const aCommit = commit([BigInt(value)], srs)
+    const xCommit = srs.g2(2)[1]
+
+    const inputs = [
+        {
             G1: G1.affine(
                 G1.add(
                     G1.mulScalar(proof, index),
@@ -394,6 +1126,105 @@ const verifyViaEIP197 = (
     return isValidPairing(inputs)
 }
 
+/*
+ * @return The G1 points lhs and rhs such that each proof in the batch is valid
+ *         if e(lhs, G2.g) == e(rhs, xCommit). Each item's pairing equation
+ *         (see verify()) is multiplied by a random challenge r_i and the
+ *         results are summed:
+ *             lhs = sum(r_i * (index_i * proof_i + commitment_i - value_i * g))
+ *             rhs = sum(r_i * proof_i)
+ *         If any proof is invalid, the check passes with negligible
+ *         probability, as the challenges are unknown to the prover.
+ */
+const genBatchVerifyPoints = (
+    items: BatchVerifyItem[],
+    p: bigint,
+    domain?: EvaluationDomain,
+) => {
+    if (items.length === 0) {
+        throw new InvalidArgumentError('items', 'At least one item is needed')
+    }
+
+    const field = galois.createPrimeField(p)
+    const lhsPoints: G1Point[] = []
+    const lhsScalars: bigint[] = []
+    const rhsPoints: G1Point[] = []
+    const rhsScalars: bigint[] = []
+    let valueSum = field.zero
+
+    for (const item of items) {
+        const r = field.rand()
+        const index = genDomainPoint(item.index, domain, p)
+
+        lhsPoints.push(item.proof)
+        lhsScalars.push(field.mul(r, index))
+        lhsPoints.push(item.commitment)
+        lhsScalars.push(r)
+        valueSum = field.add(valueSum, field.mul(r, BigInt(item.value)))
+
+        rhsPoints.push(item.proof)
+        rhsScalars.push(r)
+    }
+
+    // Subtract sum(r_i * value_i) * g
+    lhsPoints.push(G1.g)
+    lhsScalars.push(field.neg(valueSum))
+
+    return {
+        lhs: multiScalarMul(G1, lhsPoints, lhsScalars),
+        rhs: multiScalarMul(G1, rhsPoints, rhsScalars),
+    }
+}
+
+/*
+ * Returns true if every proof in the batch (that for the polynomial
+ * committed to, the evaluation at the given index equals the given value) is
+ * valid, and false if any of them is invalid. Rather than two pairings per
+ * proof, this only needs two pairings in total. If an evaluation domain is
+ * given, each index refers to an x-value in the domain.
+ */
+const batchVerify = (
+    items: BatchVerifyItem[],
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
+): boolean => {
+    const srsPoints = srs.g2(2)
+    const { lhs, rhs } = genBatchVerifyPoints(items, p, domain)
+
+    const lhsPairing = pairing(G1.affine(lhs), G2.g)
+    const rhsPairing = pairing(G1.affine(rhs), srsPoints[1])
+
+    return ffjavascript.bn128.F12.eq(lhsPairing, rhsPairing)
+}
+
+/*
+ * The same as batchVerify(), but performs the check in the style of EIP-197:
+ *     e(lhs, G2.g) * e(-rhs, xCommit) == 1
+ */
+const batchVerifyViaEIP197 = (
+    items: BatchVerifyItem[],
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+    srs: SRS = defaultSRS,
+): boolean => {
+    const srsPoints = srs.g2(2)
+    const { lhs, rhs } = genBatchVerifyPoints(items, p, domain)
+
+    const inputs = [
+        {
+            G1: G1.affine(lhs),
+            G2: G2.g,
+        },
+        {
+            G1: G1.affine(G1.neg(rhs)),
+            G2: srsPoints[1],
+        },
+    ]
+
+    return isValidPairing(inputs)
+}
+
 const genVerifierContractParams = (
     commitment: Commitment,
     proof: Proof,
@@ -409,8 +1240,8 @@ const genVerifierContractParams = (
             '0x' + proof[0].toString(16),
             '0x' + proof[1].toString(16),
         ],
-        index: '0x' + BigInt(index).toString(16),
-        value: '0x' + BigInt(value).toString(16),
+        index: '0x' + toFieldElement(index).toString(16),
+        value: '0x' + toFieldElement(value).toString(16),
     }
 }
 
@@ -421,19 +1252,23 @@ const genMultiVerifierContractParams = (
     values: bigint[],
     p: bigint = FIELD_SIZE,
 ) => {
-    assert(indices.length <= MAX_G1_SOL_POINTS)
+    if (indices.length > MAX_G1_SOL_POINTS) {
+        throw new TooManyPointsError(
+            indices.length,
+            MAX_G1_SOL_POINTS,
+            `The verifier contract supports at most ${MAX_G1_SOL_POINTS} points, but ${indices.length} were given`,
+        )
+    }
 
     const field = galois.createPrimeField(p)
     const xVals: bigint[] = []
     for (let i of indices) {
-        xVals.push(BigInt(i))
+        xVals.push(toFieldElement(i, p))
     }
+    values = values.map((v) => toFieldElement(v, p))
 
-    const iPoly = field.interpolate(
-        field.newVectorFrom(xVals),
-        field.newVectorFrom(values),
-    )
-    const zPoly = genZeroPoly(field, indices)
+    const iPoly = interpolate(field, xVals, values)
+    const zPoly = genZeroPoly(field, xVals)
 
     return {
         commitment: [
@@ -457,26 +1292,317 @@ const genMultiVerifierContractParams = (
     }
 }
 
+/*
+ * @return A Transcript for genBDFGProof() and verifyBDFG() which has
+ *         absorbed the commitments, point sets, and values. The challenge
+ *         gamma is squeezed from it, after which it absorbs w and the
+ *         challenge z is squeezed.
+ */
+const genBDFGTranscript = (
+    commitments: Commitment[],
+    pointSets: bigint[][],
+    values: bigint[][],
+): Transcript => {
+    const transcript = new Transcript('libkzg-bdfg')
+    transcript.absorbFieldElement('numPolys', BigInt(commitments.length))
+    for (let i = 0; i < commitments.length; i ++) {
+        transcript.absorbG1('commitment', commitments[i])
+        transcript.absorbFieldElement('numPoints', BigInt(pointSets[i].length))
+        for (let j = 0; j < pointSets[i].length; j ++) {
+            transcript.absorbFieldElement('point', reduce(pointSets[i][j]))
+            transcript.absorbFieldElement('value', reduce(values[i][j]))
+        }
+    }
+
+    return transcript
+}
+
+/*
+ * @return The given point sets or values, with each element reduced modulo
+ *         p.
+ */
+const reduceSets = (
+    sets: (number | bigint)[][],
+    p: bigint,
+): bigint[][] => {
+    return sets.map((set) => set.map((x) => reduce(BigInt(x), p)))
+}
+
+/*
+ * @return The union of the given point sets, without duplicates.
+ */
+const genPointSetUnion = (
+    pointSets: bigint[][],
+): bigint[] => {
+    const seen: Set<string> = new Set()
+    const union: bigint[] = []
+    for (const pointSet of pointSets) {
+        for (const x of pointSet) {
+            if (!seen.has(x.toString())) {
+                seen.add(x.toString())
+                union.push(x)
+            }
+        }
+    }
+    return union
+}
+
+/*
+ * @return The polynominal which intersects y=0 at each point in T but not in
+ *         S. If every point in T is in S, this is the constant polynominal 1.
+ *         The points in both T and S must already be reduced modulo p.
+ */
+const genComplementZeroPoly = (
+    field: galois.FiniteField,
+    T: bigint[],
+    S: bigint[],
+): galois.Vector => {
+    const inS: Set<string> = new Set(S.map((x) => x.toString()))
+    const complement = T.filter((x) => !inS.has(x.toString()))
+    if (complement.length === 0) {
+        return field.newVectorFrom([field.one])
+    }
+    return genZeroPoly(field, complement)
+}
+
+/*
+ * @return A constant-size proof that each polynominal polys[i] evaluates to
+ *         the respective values at each point in pointSets[i], using the
+ *         technique by Boneh, Drake, Fisch, and Gabizon (also known as
+ *         SHPLONK). Let T be the union of the point sets, r_i(x) the
+ *         polynominal which interpolates polys[i] over pointSets[i], and Z_S
+ *         the polynominal which intersects y=0 at each point in S. With the
+ *         challenges gamma and z (see genBDFGTranscript()), the
+ *         proof is:
+ *             w = commit(sum(gamma^i * Z_(T - S_i) * (f_i - r_i)) / Z_T)
+ *             wPrime = commit(L(x) / (x - z)), where
+ *             L(x) = sum(gamma^i * Z_(T - S_i)(z) * (f_i(x) - r_i(z))) - Z_T(z) * h(x)
+ *         See: https://eprint.iacr.org/2020/081
+ * @param polys The coefficients of each polynominal.
+ * @param pointSets The x-values at which to open each polynominal.
+ * @param p The field size. Defaults to the BabyJub field size.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const genBDFGProof = (
+    polys: Coefficient[][],
+    pointSets: (number | bigint)[][],
+    p: bigint = FIELD_SIZE,
+    srs: SRS = defaultSRS,
+): BDFGProof => {
+    if (polys.length === 0) {
+        throw new InvalidArgumentError('polys', 'At least one polynominal is needed')
+    }
+    if (polys.length !== pointSets.length) {
+        throw new InvalidArgumentError('pointSets', 'There must be as many point sets as polynominals')
+    }
+
+    const field = galois.createPrimeField(p)
+    const sets = reduceSets(pointSets, p)
+    const T = genPointSetUnion(sets)
+    const zT = genZeroPoly(field, T)
+
+    const fPolys = polys.map((poly) => field.newVectorFrom(poly))
+    const commitments = polys.map((poly) => commit(poly, srs))
+    const rPolys = fPolys.map((f, i) => genInterpolatingPoly(field, f, sets[i]))
+    const values = rPolys.map(
+        (r, i) => sets[i].map((x) => field.evalPolyAt(r, x)),
+    )
+    const complements = sets.map((S) => genComplementZeroPoly(field, T, S))
+
+    // Compute h(x) = sum(gamma^i * Z_(T - S_i) * (f_i - r_i)) / Z_T
+    const transcript = genBDFGTranscript(commitments, sets, values)
+    const gamma = transcript.squeezeChallenge('gamma')
+    let numerator = field.newVectorFrom([field.zero])
+    let scale = field.one
+    for (let i = 0; i < polys.length; i ++) {
+        const term = field.mulPolys(
+            complements[i],
+            field.subPolys(fPolys[i], rPolys[i]),
+        )
+        numerator = field.addPolys(numerator, field.mulPolyByConstant(term, scale))
+        scale = field.mul(scale, gamma)
+    }
+    const hPoly = field.divPolys(numerator, zT)
+    const w = commit(hPoly.toValues(), srs)
+
+    // Compute L(x) and open it at z
+    transcript.absorbG1('w', w)
+    const z = transcript.squeezeChallenge('z')
+    let lPoly = field.mulPolyByConstant(hPoly, field.neg(field.evalPolyAt(zT, z)))
+    scale = field.one
+    for (let i = 0; i < polys.length; i ++) {
+        const factor = field.mul(scale, field.evalPolyAt(complements[i], z))
+        const term = field.subPolys(
+            fPolys[i],
+            field.newVectorFrom([field.evalPolyAt(rPolys[i], z)]),
+        )
+        lPoly = field.addPolys(lPoly, field.mulPolyByConstant(term, factor))
+        scale = field.mul(scale, gamma)
+    }
+    const wPrime = commit(genQuotientPolynomial(lPoly.toValues(), z, p), srs)
+
+    return { w, wPrime }
+}
+
+/*
+ * Returns true if the proof generated by genBDFGProof() (that each
+ * polynominal committed to evaluates to values[i][j] at pointSets[i][j]) is
+ * valid, and false otherwise. The verifier computes
+ *     F = sum(gamma^i * Z_(T - S_i)(z) * (commitments[i] - r_i(z) * g)) - Z_T(z) * w
+ * which is a commitment to L(x), and checks that L(z) = 0 by checking
+ *     e(F + z * wPrime, G2.g) == e(wPrime, xCommit)
+ */
+const verifyBDFG = (
+    commitments: Commitment[],
+    proof: BDFGProof,
+    pointSets: (number | bigint)[][],
+    values: bigint[][],
+    p: bigint = FIELD_SIZE,
+    srs: SRS = defaultSRS,
+): boolean => {
+    if (commitments.length === 0) {
+        throw new InvalidArgumentError('commitments', 'At least one commitment is needed')
+    }
+    if (commitments.length !== pointSets.length || commitments.length !== values.length) {
+        throw new InvalidArgumentError('pointSets', 'There must be as many point sets and values as commitments')
+    }
+    for (let i = 0; i < pointSets.length; i ++) {
+        if (pointSets[i].length !== values[i].length) {
+            throw new InvalidArgumentError('values', `Point set ${i} and its values must have the same length`)
+        }
+    }
+
+    const field = galois.createPrimeField(p)
+    const sets = reduceSets(pointSets, p)
+    const evals = reduceSets(values, p)
+    const T = genPointSetUnion(sets)
+    const zT = genZeroPoly(field, T)
+
+    const transcript = genBDFGTranscript(commitments, sets, evals)
+    const gamma = transcript.squeezeChallenge('gamma')
+    transcript.absorbG1('w', proof.w)
+    const z = transcript.squeezeChallenge('z')
+
+    const points: G1Point[] = []
+    const scalars: bigint[] = []
+    let rSum = field.zero
+    let scale = field.one
+    for (let i = 0; i < commitments.length; i ++) {
+        const rPoly = interpolate(field, sets[i], evals[i])
+        const factor = field.mul(
+            scale,
+            field.evalPolyAt(genComplementZeroPoly(field, T, sets[i]), z),
+        )
+        points.push(commitments[i])
+        scalars.push(factor)
+        rSum = field.add(rSum, field.mul(factor, field.evalPolyAt(rPoly, z)))
+        scale = field.mul(scale, gamma)
+    }
+
+    // Subtract sum(factor_i * r_i(z)) * g and Z_T(z) * w, and add z * wPrime
+    points.push(G1.g)
+    scalars.push(field.neg(rSum))
+    points.push(proof.w)
+    scalars.push(field.neg(field.evalPolyAt(zT, z)))
+    points.push(proof.wPrime)
+    scalars.push(z)
+
+    const lhs = pairing(
+        G1.affine(multiScalarMul(G1, points, scalars)),
+        G2.g,
+    )
+    const rhs = pairing(
+        G1.affine(proof.wPrime),
+        srs.g2(2)[1],
+    )
+
+    return ffjavascript.bn128.F12.eq(lhs, rhs)
+}
+
+/*
+ * @return Parameters to the verifier contract's verifyMultiG1() function, for
+ *         a proof generated by genMultiProofG1(). As the EVM cannot add G2
+ *         points, the contract does not commit to the zero polynominal in G2
+ *         itself, but checks zCommit against the coefficients zCoeffs. As
+ *         zCoeffs has one more coefficient than there are indices, at most
+ *         MAX_G1_SOL_POINTS - 1 indices are supported.
+ */
+const genMultiVerifierContractParamsG1 = (
+    commitment: Commitment,
+    proof: MultiProofG1,
+    indices: number[] | bigint[],
+    values: bigint[],
+    p: bigint = FIELD_SIZE,
+    srs: SRS = defaultSRS,
+) => {
+    if (indices.length > MAX_G1_SOL_POINTS - 1) {
+        throw new TooManyPointsError(
+            indices.length,
+            MAX_G1_SOL_POINTS - 1,
+            `The verifier contract supports at most ${MAX_G1_SOL_POINTS - 1} points for proofs in G1, but ${indices.length} were given`,
+        )
+    }
+
+    const field = galois.createPrimeField(p)
+    const xVals: bigint[] = []
+    for (let i of indices) {
+        xVals.push(toFieldElement(i, p))
+    }
+    values = values.map((v) => toFieldElement(v, p))
+
+    const iPoly = interpolate(field, xVals, values)
+    const zPoly = genZeroPoly(field, xVals)
+    const zCommit = G2.affine(genZeroPolyCommitmentG2(field, xVals, srs))
+
+    return {
+        commitment: [
+            '0x' + commitment[0].toString(16),
+            '0x' + commitment[1].toString(16),
+        ],
+        proof: [
+            '0x' + proof[0].toString(16),
+            '0x' + proof[1].toString(16),
+        ],
+        indices: xVals.map((x) => '0x' + BigInt(x).toString(16)),
+        values: values.map((x) => '0x' + BigInt(x).toString(16)),
+        iCoeffs: iPoly.toValues().map((x) => '0x' + BigInt(x).toString(16)),
+        zCoeffs: zPoly.toValues().map((x) => '0x' + BigInt(x).toString(16)),
+        zCommit: [
+            [
+                '0x' + zCommit[0][1].toString(16),
+                '0x' + zCommit[0][0].toString(16),
+            ],
+            [
+                '0x' + zCommit[1][1].toString(16),
+                '0x' + zCommit[1][0].toString(16),
+            ]
+        ],
+    }
+}
+
 /*
  * @return The coefficient to a polynomial which intersects the points (0,
- *         values[0]) ... (n, values[n]). Each value must be less than
- *         FIELD_SIZE. Likewise, each resulting coefficient will be less than
- *         FIELD_SIZE. This is because all operations in this function work in
- *         a finite field of prime order p = FIELD_SIZE. The output of this
+ *         values[0]) ... (n, values[n]). Each value is reduced modulo p, so
+ *         values may be negative, and each resulting coefficient will be less
+ *         than p. This is because all operations in this function work in a
+ *         finite field of prime order p = FIELD_SIZE. The output of this
  *         function can be fed into commit() to produce a KZG polynomial
  *         commitment to said polynomial.
+ *         If an evaluation domain is given, the polynominal instead
+ *         intersects the points (x_0, values[0]) ... (x_n, values[n]), where
+ *         x_i = cosetOffset * w^i, using an inverse NTT. In this case, there
+ *         must be exactly as many values as the size of the domain.
  * @param values The values to interpolate.
  * @param p The field size. Defaults to the BabyJub field size.
+ * @param domain The evaluation domain, if any.
  */
 const genCoefficients = (
     values: bigint[],
     p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
 ): Coefficient[] => {
-    // Check the inputs
-    for (let value of values) {
-        assert(typeof(value) === 'bigint')
-        assert(value < FIELD_SIZE)
-    }
+    // Reduce the inputs
+    values = values.map((v) => toFieldElement(v, p))
 
     // Perform the interpolation
     const field = galois.createPrimeField(p)
@@ -484,25 +1610,917 @@ const genCoefficients = (
     for (let i = 0; i < values.length; i ++) {
         x.push(BigInt(i))
     }
-    const xVals = field.newVectorFrom(x)
-    const yVals = field.newVectorFrom(values)
-    const coefficients = field.interpolate(xVals, yVals).toValues()
+    let coefficients: bigint[]
+    if (domain !== undefined) {
+        if (values.length !== domain.size) {
+            throw new InvalidArgumentError(
+                'values',
+                `There must be ${domain.size} values, but ${values.length} were given`,
+            )
+        }
+
+        // The inverse NTT gives the coefficients of q(x) = p(cosetOffset * x),
+        // so the j-th coefficient of p(x) is q_j / cosetOffset^j
+        coefficients = intt(field, values, domain.generator)
+        const offsetInv = field.inv(domain.cosetOffset)
+        let scale = field.one
+        for (let j = 0; j < coefficients.length; j ++) {
+            coefficients[j] = field.mul(coefficients[j], scale)
+            scale = field.mul(scale, offsetInv)
+        }
+    } else if (useNTT(field, values.length)) {
+        // The Lagrange denominators for the x-values 0, 1, ..., n - 1 are
+        // already known, so they need not be computed by interpolateNTT()
+        const w = genLagrangeDenominators(field, values.length)
+        coefficients = interpolateNTT(field, x, values, w)
+    } else {
+        coefficients = interpolate(field, x, values).toValues()
+    }
  
     // Check the outputs
     for (let coefficient of coefficients) {
-        assert(coefficient < FIELD_SIZE)
+        assert(coefficient < p)
     }
     return coefficients
 }
 
+// Lagrange-form SRS values computed so far, keyed by the SRS and the number
+// of points
+const lagrangeSrsCache: WeakMap<SRS, Map<number, G1Point[]>> = new WeakMap()
+
+/*
+ * @return The denominators of the Lagrange basis polynomials over the points
+ *         0, 1, ..., n - 1. That is, w[i] = prod((i - j) for j != i), which
+ *         equals i! * (n - 1 - i)! * (-1)^(n - 1 - i).
+ */
+const genLagrangeDenominators = (
+    field: galois.FiniteField,
+    n: number,
+): bigint[] => {
+    const factorials: bigint[] = [field.one]
+    for (let i = 1; i < n; i ++) {
+        factorials.push(field.mul(factorials[i - 1], BigInt(i)))
+    }
+
+    const w: bigint[] = []
+    for (let i = 0; i < n; i ++) {
+        const d = field.mul(factorials[i], factorials[n - 1 - i])
+        w.push((n - 1 - i) % 2 === 0 ? d : field.neg(d))
+    }
+    return w
+}
+
+/*
+ * @return The first n G1 values of the structured reference string in
+ *         Lagrange form. That is, the i-th value is a commitment to the
+ *         Lagrange basis polynomial L_i(x) which evaluates to 1 at x = i and
+ *         to 0 at every other x in 0, 1, ..., n - 1. As such, a commitment to
+ *         the polynominal which intersects (i, values[i]) is the sum of
+ *         values[i] times the i-th value.
+ *         These values are derived from the first n G1 values of the SRS.
+ *         As L_i(x) = Z(x) / ((x - i) * w[i]), where Z(x) is the zero
+ *         polynominal of 0, 1, ..., n - 1, the commitments to each
+ *         Z(x) / (x - i) are computed at once with groupZeroQuotients(). The
+ *         x-values are not roots of unity, so a single inverse NTT does not
+ *         suffice, but this takes O(n log^2 n) scalar multiplications. The
+ *         result is cached.
+ * @param n The number of points.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const srsLagrangeG1 = (
+    n: number,
+    srs: SRS = defaultSRS,
+): G1Point[] => {
+    if (n < 1) {
+        throw new InvalidArgumentError('n', 'At least one point is needed')
+    }
+
+    let cache = lagrangeSrsCache.get(srs)
+    if (cache === undefined) {
+        cache = new Map()
+        lagrangeSrsCache.set(srs, cache)
+    }
+    const cached = cache.get(n)
+    if (cached !== undefined) {
+        return cached
+    }
+
+    const field = galois.createPrimeField(FIELD_SIZE)
+    const xs: bigint[] = []
+    for (let i = 0; i < n; i ++) {
+        xs.push(BigInt(i))
+    }
+    const quotients = groupZeroQuotients(field, G1, srs.g1(n), xs)
+    const w = genLagrangeDenominators(field, n)
+    const lagrangeSrs = quotients.map(
+        (q: G1Point, i: number) => G1.affine(G1.mulScalar(q, field.inv(w[i]))),
+    )
+
+    cache.set(n, lagrangeSrs)
+    return lagrangeSrs
+}
+
+/*
+ * @return A KZG commitment to the polynominal which intersects the points
+ *         (0, values[0]) ... (n, values[n]). This is the same commitment as
+ *         commit(genCoefficients(values)), but does not require polynominal
+ *         interpolation.
+ * @param values The values to commit. Each value is reduced modulo
+ *               FIELD_SIZE.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const commitEvaluations = (
+    values: bigint[],
+    srs: SRS = defaultSRS,
+): Commitment => {
+    values = values.map((v) => toFieldElement(v))
+
+    const lagrangeSrs = srsLagrangeG1(values.length, srs)
+    return G1.affine(multiScalarMul(G1, lagrangeSrs, values))
+}
+
+/*
+ * @return A KZG commitment proof of evaluation at a single point for the
+ *         polynominal which intersects the points (0, values[0]) ...
+ *         (n, values[n]). This is the same proof as
+ *         genProof(genCoefficients(values), index), but does not require
+ *         polynominal interpolation.
+ * @param values The values which the polynominal intersects. Each value is
+ *               reduced modulo p.
+ * @param index The x-value for the polynomial evaluation proof.
+ * @param p The field size. Defaults to the BabyJub field size.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const genProofFromEvaluations = (
+    values: bigint[],
+    index: number | bigint,
+    p: bigint = FIELD_SIZE,
+    srs: SRS = defaultSRS,
+): Proof => {
+    values = values.map((v) => toFieldElement(v, p))
+
+    const field = galois.createPrimeField(p)
+    const n = values.length
+    const z = toFieldElement(index, p)
+    const w = genLagrangeDenominators(field, n)
+
+    // The quotient polynominal q(x) = (p(x) - p(z)) / (x - z) has a degree
+    // lower than n, so it is fully described by its evaluations q(0) ...
+    // q(n - 1)
+    const qEvals: bigint[] = []
+    if (z < BigInt(n)) {
+        // p(z) is simply values[z]. For each i != z, q(i) is the slope
+        // between (i, values[i]) and (z, values[z]), and q(z) = p'(z), which
+        // is sum((values[i] - values[z]) * w[z] / (w[i] * (z - i)))
+        const m = Number(z)
+        let qAtZ = field.zero
+        for (let i = 0; i < n; i ++) {
+            if (i === m) {
+                qEvals.push(field.zero)
+                continue
+            }
+            const diff = field.sub(values[i], values[m])
+            qEvals.push(field.div(diff, field.sub(BigInt(i), z)))
+            qAtZ = field.add(
+                qAtZ,
+                field.div(
+                    field.mul(diff, w[m]),
+                    field.mul(w[i], field.sub(z, BigInt(i))),
+                ),
+            )
+        }
+        qEvals[m] = qAtZ
+    } else {
+        // Evaluate p(z) with the barycentric formula:
+        // p(z) = Z(z) * sum(values[i] / (w[i] * (z - i)))
+        let zEval = field.one
+        for (let i = 0; i < n; i ++) {
+            zEval = field.mul(zEval, field.sub(z, BigInt(i)))
+        }
+        let yVal = field.zero
+        for (let i = 0; i < n; i ++) {
+            yVal = field.add(
+                yVal,
+                field.div(values[i], field.mul(w[i], field.sub(z, BigInt(i)))),
+            )
+        }
+        yVal = field.mul(yVal, zEval)
+
+        for (let i = 0; i < n; i ++) {
+            qEvals.push(
+                field.div(
+                    field.sub(values[i], yVal),
+                    field.sub(BigInt(i), z),
+                ),
+            )
+        }
+    }
+
+    const lagrangeSrs = srsLagrangeG1(n, srs)
+    return G1.affine(multiScalarMul(G1, lagrangeSrs, qEvals))
+}
+
+/*
+ * @return The sum of points[i] * scalars[i], in affine form. Each scalar is
+ *         reduced modulo FIELD_SIZE, so it may be negative.
+ */
+const combinePoints = (
+    points: G1Point[],
+    scalars: (bigint | number)[],
+): G1Point => {
+    if (points.length === 0) {
+        throw new InvalidArgumentError('points', 'At least one point is needed')
+    }
+    if (points.length !== scalars.length) {
+        throw new InvalidArgumentError('scalars', 'There must be as many scalars as points')
+    }
+    const reduced = scalars.map((x) => toFieldElement(x))
+    return G1.affine(multiScalarMul(G1, points, reduced))
+}
+
+/*
+ * @return A commitment to the sum of the polynominals committed to by a and
+ *         b. This works because KZG commitments are additively homomorphic.
+ */
+const addCommitments = (
+    a: Commitment,
+    b: Commitment,
+): Commitment => {
+    return G1.affine(G1.add(a, b))
+}
+
+/*
+ * @return A commitment to the polynominal committed to, multiplied by the
+ *         scalar, which may be negative.
+ */
+const scaleCommitment = (
+    commitment: Commitment,
+    scalar: bigint | number,
+): Commitment => {
+    return combinePoints([commitment], [scalar])
+}
+
+/*
+ * @return A commitment to the sum of scalars[i] times the polynominal
+ *         committed to by commitments[i]. Each scalar may be negative.
+ */
+const linearCombination = (
+    commitments: Commitment[],
+    scalars: (bigint | number)[],
+): Commitment => {
+    return combinePoints(commitments, scalars)
+}
+
+/*
+ * @return A proof that the sum of the polynominals evaluates to the sum of
+ *         the values at an index, given proofs a and b for that index. It
+ *         verifies against addCommitments() of the commitments.
+ */
+const addProofs = (
+    a: Proof,
+    b: Proof,
+): Proof => {
+    return G1.affine(G1.add(a, b))
+}
+
+/*
+ * @return A proof that the polynominal multiplied by the scalar evaluates to
+ *         the value multiplied by the scalar at the same index. It verifies
+ *         against scaleCommitment() of the commitment.
+ */
+const scaleProof = (
+    proof: Proof,
+    scalar: bigint | number,
+): Proof => {
+    return combinePoints([proof], [scalar])
+}
+
+/*
+ * @return A proof of evaluation at an index for the linear combination of
+ *         polynominals, given a proof for each of them at that index. It
+ *         verifies against linearCombination() of the commitments, with the
+ *         same linear combination of the values.
+ */
+const linearCombinationProofs = (
+    proofs: Proof[],
+    scalars: (bigint | number)[],
+): Proof => {
+    return combinePoints(proofs, scalars)
+}
+
+/*
+ * @return The commitment to the polynominal which intersects the points
+ *         (0, values[0]) ... (n - 1, values[n - 1]), i.e. the output of
+ *         commitEvaluations(values) or commit(genCoefficients(values)), after
+ *         values[index] changes from oldValue to newValue. This adds
+ *         (newValue - oldValue) times the index-th value of srsLagrangeG1(n)
+ *         to the commitment. The first call for a given n computes and
+ *         caches srsLagrangeG1(n), so later calls take one scalar
+ *         multiplication.
+ * @param commitment The commitment before the change.
+ * @param index The index of the value which changed.
+ * @param oldValue The value before the change.
+ * @param newValue The value after the change.
+ * @param n The number of values.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const updateCommitment = (
+    commitment: Commitment,
+    index: number,
+    oldValue: bigint,
+    newValue: bigint,
+    n: number,
+    srs: SRS = defaultSRS,
+): Commitment => {
+    if (!Number.isSafeInteger(index) || index < 0 || index >= n) {
+        throw new InvalidArgumentError('index', `The index ${index} is not less than ${n}`)
+    }
+    const delta = toFieldElement(toFieldElement(newValue) - toFieldElement(oldValue))
+
+    const lagrange = srsLagrangeG1(n, srs)[index]
+    return G1.affine(G1.add(commitment, G1.mulScalar(lagrange, delta)))
+}
+
+/*
+ * @return One proof of evaluation at every index of the given proofs, which
+ *         verifyMultiG1() checks against the commitment, made without the
+ *         polynominal. This is the aggregation of Tomescu et al.'s
+ *         aggregatable subvector commitments: with the zero polynominal
+ *         A(x) = (x - x_1)...(x - x_k), the partial fraction decomposition
+ *         1 / A(x) = sum_i 1 / (A'(x_i) * (x - x_i)) gives
+ *         (p(x) - iPoly(x)) / A(x) = sum_i (p(x) - p(x_i)) / (A'(x_i) * (x - x_i)),
+ *         so the result is the sum of each proof divided by A'(x_i), which is
+ *         the denominator of the i-th Lagrange basis polynominal.
+ * @param commitment The commitment which every proof is for. Throws an
+ *                   InvalidPointError if it or a proof is not on the curve.
+ * @param proofs The proofs from genProof(), each with its index. The indices
+ *               must be distinct.
+ * @param p The field size. Defaults to the BabyJub field size.
+ * @param domain The evaluation domain, if any.
+ */
+const aggregateProofs = (
+    commitment: Commitment,
+    proofs: IndexedProof[],
+    p: bigint = FIELD_SIZE,
+    domain?: EvaluationDomain,
+): MultiProofG1 => {
+    if (proofs.length === 0) {
+        throw new InvalidArgumentError('proofs', 'At least one proof is needed')
+    }
+    if (!isOnCurveG1(commitment)) {
+        throw new InvalidPointError(commitment, 'The commitment is not on the curve')
+    }
+    for (const { proof } of proofs) {
+        if (!isOnCurveG1(proof)) {
+            throw new InvalidPointError(proof, 'A proof is not on the curve')
+        }
+    }
+
+    const field = galois.createPrimeField(p)
+    const xVals = genDomainPoints(proofs.map((x) => BigInt(x.index)), domain, p)
+    if (new Set(xVals.map(String)).size !== xVals.length) {
+        throw new InvalidArgumentError('proofs', 'The indices of the proofs must be distinct')
+    }
+
+    // A'(x), the derivative of the zero polynominal
+    const zPoly = genZeroPoly(field, xVals).toValues()
+    const derivative = field.newVectorFrom(
+        zPoly.slice(1).map((c, i) => field.mul(c, BigInt(i + 1))),
+    )
+
+    const scalars = xVals.map((x) => field.inv(field.evalPolyAt(derivative, x)))
+    return combinePoints(proofs.map((x) => x.proof), scalars)
+}
+
+/*
+ * @return The power of tau by which genDegreeProof() shifts a polynominal of
+ *         degree maxDegree, so that its highest power is the highest power of
+ *         tau in G2 which the ceremony published. Throws unless the SRS holds
+ *         exactly the G2 powers up to that one.
+ */
+const genDegreeShift = (
+    maxDegree: number,
+    ceremonyDegreeG2: number,
+    srs: SRS,
+): number => {
+    if (!Number.isSafeInteger(maxDegree) || maxDegree < 0) {
+        throw new InvalidArgumentError('maxDegree', `The maximum degree must be a non-negative integer, but it is ${maxDegree}`)
+    }
+    if (!Number.isSafeInteger(ceremonyDegreeG2) || ceremonyDegreeG2 < maxDegree) {
+        throw new InvalidArgumentError(
+            'ceremonyDegreeG2',
+            `The ceremony's highest power of tau in G2 must be an integer of at least ${maxDegree}, but it is ${ceremonyDegreeG2}`,
+        )
+    }
+    const n = srs.sizeG2()
+    if (ceremonyDegreeG2 >= n) {
+        throw new SrsTooSmallError('G2', ceremonyDegreeG2 + 1, n)
+    }
+    if (ceremonyDegreeG2 < n - 1) {
+        throw new InvalidArgumentError(
+            'srs',
+            `The SRS holds ${n} G2 points, which is more than a ceremony whose highest power of tau in G2 is ${ceremonyDegreeG2} published`,
+        )
+    }
+    return ceremonyDegreeG2 - maxDegree
+}
+
+/*
+ * @return A proof that a polynominal has a degree of at most maxDegree. This
+ *         is the commitment in G2 to x^s * p(x), where s is ceremonyDegreeG2
+ *         minus maxDegree. The ceremony never published tau^i * G2 for i
+ *         beyond ceremonyDegreeG2, so the proof only exists if the degree is
+ *         at most maxDegree. Throws a DegreeTooLargeError if it is not. See
+ *         verifyDegreeProof().
+ *
+ *         This is only sound if ceremonyDegreeG2 really is the highest power
+ *         in G2 which the ceremony published. defaultSRS must not be used, as
+ *         it is a slice of the Perpetual Powers of Tau ceremony, which
+ *         published far more G2 powers than it holds.
+ * @param coefficients The coefficients of the polynominal. Each is reduced
+ *                     modulo FIELD_SIZE.
+ * @param maxDegree The degree bound.
+ * @param ceremonyDegreeG2 The highest power of tau in G2 which the ceremony
+ *                         that produced the SRS published. The SRS must hold
+ *                         every G2 power up to it, and no more.
+ * @param srs The structured reference string, e.g. from ceremonySRS().
+ */
+const genDegreeProof = (
+    coefficients: Coefficient[],
+    maxDegree: number,
+    ceremonyDegreeG2: number,
+    srs: SRS,
+): DegreeProof => {
+    const shift = genDegreeShift(maxDegree, ceremonyDegreeG2, srs)
+
+    // Trailing zeros do not count towards the degree
+    const reduced = coefficients.map((c) => toFieldElement(c))
+    while (reduced.length > 1 && reduced[reduced.length - 1] === BigInt(0)) {
+        reduced.pop()
+    }
+    if (reduced.length - 1 > maxDegree) {
+        throw new DegreeTooLargeError(reduced.length - 1, maxDegree)
+    }
+
+    const points = srs.g2(shift + reduced.length).slice(shift)
+    return polyCommit(reduced, G2, points)
+}
+
+/*
+ * Returns true if the proof shows that the commitment is to a polynominal of
+ * degree at most maxDegree, and false otherwise. This checks that
+ * e(commitment, tau^s * G2) = e(G1.g, proof), where s is the shift used by
+ * genDegreeProof(). The same caveat about ceremonyDegreeG2 applies.
+ * @param commitment The commitment to the polynominal.
+ * @param proof The proof from genDegreeProof().
+ * @param maxDegree The degree bound.
+ * @param ceremonyDegreeG2 The highest power of tau in G2 which the ceremony
+ *                         that produced the SRS published.
+ * @param srs The structured reference string, e.g. from ceremonySRS().
+ */
+const verifyDegreeProof = (
+    commitment: Commitment,
+    proof: DegreeProof,
+    maxDegree: number,
+    ceremonyDegreeG2: number,
+    srs: SRS,
+): boolean => {
+    const shift = genDegreeShift(maxDegree, ceremonyDegreeG2, srs)
+    const tauShift = srs.g2(shift + 1)[shift]
+
+    return ffjavascript.bn128.F12.eq(
+        pairing(commitment, tauShift),
+        pairing(G1.g, proof),
+    )
+}
+
+/*
+ * Thrown by importProofBundle() when a proof bundle is malformed or was made
+ * with a different SRS.
+ */
+class InvalidProofBundleError extends KzgError {}
+
+/*
+ * @return A description of the first problem found in the first depthG1 G1
+ *         points and depthG2 G2 points of the SRS, or undefined if there is
+ *         none. The checks are that:
+ *             - the first points are the generators of G1 and G2;
+ *             - no point is the point at infinity;
+ *             - each point is on the curve and in the subgroup;
+ *             - each point is tau times the previous point, for the same tau
+ *               in G1 and G2.
+ *         If the SRS is a HidingSRS, all of its points tau^i * H are checked
+ *         in the same way, starting with HIDING_GENERATOR.
+ *         The last check takes random r_i and s_i and checks that
+ *             e(sum(r_i * g1[i + 1]), g2[0]) == e(sum(r_i * g1[i]), g2[1])
+ *             e(g1[1], sum(s_i * g2[i])) == e(g1[0], sum(s_i * g2[i + 1]))
+ *         which fails with negligible probability if any point is not the
+ *         next power of tau.
+ * @param srs The SRS to check.
+ * @param depthG1 The number of G1 points to check. Defaults to all of them.
+ * @param depthG2 The number of G2 points to check. Defaults to all of them.
+ */
+const checkSRS = (
+    srs: SRS,
+    depthG1: number = srs.sizeG1(),
+    depthG2: number = srs.sizeG2(),
+): string | undefined => {
+    if (depthG1 < 2 || depthG2 < 2) {
+        return 'The SRS must have at least 2 points in each group'
+    }
+
+    let g1: G1Point[]
+    let g2: G2Point[]
+    let h: G1Point[] = []
+    try {
+        g1 = srs.g1(depthG1)
+        g2 = srs.g2(depthG2)
+        if (isHidingSRS(srs)) {
+            h = srs.h(srs.sizeH())
+        }
+    } catch (e) {
+        return `The SRS could not be loaded: ${e.message}`
+    }
+
+    if (!G1.eq(g1[0], G1.g) || !G2.eq(g2[0], G2.g)) {
+        return 'The first points are not the generators'
+    }
+    for (let i = 0; i < depthG1; i ++) {
+        if (G1.eq(g1[i], G1.zero)) {
+            return `G1 point ${i} is the point at infinity`
+        }
+        if (!isOnCurveG1(g1[i])) {
+            return `G1 point ${i} is not on the curve`
+        }
+    }
+    for (let i = 0; i < depthG2; i ++) {
+        if (G2.eq(g2[i], G2.zero)) {
+            return `G2 point ${i} is the point at infinity`
+        }
+        if (!isOnCurveG2(g2[i])) {
+            return `G2 point ${i} is not on the curve`
+        }
+        if (!isInSubgroupG2(g2[i])) {
+            return `G2 point ${i} is not in the subgroup`
+        }
+    }
+
+    if (h.length > 0 && !G1.eq(h[0], HIDING_GENERATOR)) {
+        return 'The first H point is not HIDING_GENERATOR'
+    }
+    for (let i = 0; i < h.length; i ++) {
+        if (G1.eq(h[i], G1.zero) || !isOnCurveG1(h[i])) {
+            return `H point ${i} is not a valid point`
+        }
+    }
+
+    const field = genBabyJubField()
+    const bn = ffjavascript.bn128
+
+    const r: bigint[] = []
+    for (let i = 0; i < depthG1 - 1; i ++) {
+        r.push(field.rand())
+    }
+    const a = multiScalarMul(G1, g1.slice(0, depthG1 - 1), r)
+    const b = multiScalarMul(G1, g1.slice(1), r)
+    if (!bn.F12.eq(
+        bn.pairing(G1.affine(b), G2.affine(g2[0])),
+        bn.pairing(G1.affine(a), G2.affine(g2[1])),
+    )) {
+        return 'The G1 points are not consecutive powers of tau'
+    }
+
+    const s: bigint[] = []
+    for (let i = 0; i < depthG2 - 1; i ++) {
+        s.push(field.rand())
+    }
+    const c = multiScalarMul(G2, g2.slice(0, depthG2 - 1), s)
+    const d = multiScalarMul(G2, g2.slice(1), s)
+    if (!bn.F12.eq(
+        bn.pairing(G1.affine(g1[1]), G2.affine(c)),
+        bn.pairing(G1.affine(g1[0]), G2.affine(d)),
+    )) {
+        return 'The G2 points are not consecutive powers of tau'
+    }
+
+    if (h.length > 1) {
+        const t: bigint[] = []
+        for (let i = 0; i < h.length - 1; i ++) {
+            t.push(field.rand())
+        }
+        const e = multiScalarMul(G1, h.slice(0, h.length - 1), t)
+        const f = multiScalarMul(G1, h.slice(1), t)
+        if (!bn.F12.eq(
+            bn.pairing(G1.affine(f), G2.affine(g2[0])),
+            bn.pairing(G1.affine(e), G2.affine(g2[1])),
+        )) {
+            return 'The H points are not consecutive powers of tau'
+        }
+    }
+
+    return undefined
+}
+
+/*
+ * Returns true if the SRS passes every check of checkSRS(), and false
+ * otherwise.
+ */
+const verifySRS = (
+    srs: SRS,
+    depthG1: number = srs.sizeG1(),
+    depthG2: number = srs.sizeG2(),
+): boolean => {
+    return checkSRS(srs, depthG1, depthG2) === undefined
+}
+
+/*
+ * @return An identifier of the SRS, which is the Keccak-256 hash of the
+ *         compressed serializations of tau * G1 and tau * G2.
+ */
+const genSrsId = (
+    srs: SRS = defaultSRS,
+): string => {
+    const data = Buffer.concat([
+        serializeG1(srs.g1(2)[1]),
+        serializeG2(srs.g2(2)[1]),
+    ])
+    return '0x' + keccak256(data)
+}
+
+/*
+ * Throws an InvalidProofBundleError if the bundle does not have a supported
+ * scheme, or the right number of indices and values for its scheme.
+ */
+const checkBundleShape = (
+    bundle: ProofBundle,
+) => {
+    if (bundle.scheme !== 'kzg' && bundle.scheme !== 'kzg-multi') {
+        throw new InvalidProofBundleError(`Unsupported scheme ${bundle.scheme}`)
+    }
+    if (bundle.indices.length === 0 || bundle.indices.length !== bundle.values.length) {
+        throw new InvalidProofBundleError(
+            'indices and values must be non-empty and of the same length',
+        )
+    }
+    if (bundle.scheme === 'kzg' && bundle.indices.length !== 1) {
+        throw new InvalidProofBundleError('A kzg bundle must have one index')
+    }
+}
+
+/*
+ * @return The JSON representation of a proof bundle, in which points are
+ *         compressed with serializeG1() or serializeG2() and hex-encoded,
+ *         and field elements are reduced modulo FIELD_SIZE and written as
+ *         decimal strings, so that a negative index round-trips:
+ *             {
+ *                 "version": 1,
+ *                 "scheme": "kzg" or "kzg-multi",
+ *                 "curve": "bn254",
+ *                 "srsId": genSrsId(),
+ *                 "domain": null or { "size": 8, "cosetOffset": "1" },
+ *                 "commitment": "0x...",
+ *                 "proof": "0x...",
+ *                 "indices": ["1", ...],
+ *                 "values": ["8", ...]
+ *             }
+ * @param bundle The proof bundle.
+ * @param srs The SRS with which the proof was made. Defaults to defaultSRS.
+ */
+const exportProofBundle = (
+    bundle: ProofBundle,
+    srs: SRS = defaultSRS,
+): string => {
+    checkBundleShape(bundle)
+
+    const proof = bundle.scheme === 'kzg' ?
+        serializeG1(bundle.proof) : serializeG2(bundle.proof)
+    const domain = bundle.domain === undefined ? null : {
+        size: bundle.domain.size,
+        cosetOffset: bundle.domain.cosetOffset.toString(),
+    }
+
+    return JSON.stringify({
+        version: PROOF_BUNDLE_VERSION,
+        scheme: bundle.scheme,
+        curve: 'bn254',
+        srsId: genSrsId(srs),
+        domain,
+        commitment: '0x' + serializeG1(bundle.commitment).toString('hex'),
+        proof: '0x' + proof.toString('hex'),
+        indices: bundle.indices.map((x) => toFieldElement(x).toString()),
+        values: bundle.values.map((x) => toFieldElement(x).toString()),
+    })
+}
+
+/*
+ * @return The field element represented by a decimal string. Throws an
+ *         InvalidProofBundleError if it is not a string or is not less than
+ *         FIELD_SIZE.
+ */
+const parseBundleFieldElement = (
+    value: unknown,
+    name: string,
+): bigint => {
+    if (typeof value !== 'string' || !/^(0|[1-9][0-9]*)$/.test(value)) {
+        throw new InvalidProofBundleError(`${name} must be a decimal string`)
+    }
+    const result = BigInt(value)
+    if (result >= FIELD_SIZE) {
+        throw new InvalidProofBundleError(`${name} must be less than FIELD_SIZE`)
+    }
+    return result
+}
+
+/*
+ * @return The point represented by a hex-encoded compressed serialization.
+ *         Throws an InvalidProofBundleError if it is malformed.
+ */
+const parseBundlePoint = (
+    value: unknown,
+    name: string,
+    isG2: boolean,
+): G1Point | G2Point => {
+    const length = isG2 ? 128 : 64
+    if (typeof value !== 'string' || !/^0x[0-9a-f]*$/.test(value) || value.length !== length + 2) {
+        throw new InvalidProofBundleError(
+            `${name} must be a 0x-prefixed hex string of ${length / 2} bytes`,
+        )
+    }
+    const data = Buffer.from(value.slice(2), 'hex')
+    try {
+        return isG2 ? deserializeG2(data) : deserializeG1(data)
+    } catch (e) {
+        if (e instanceof DeserializationError) {
+            throw new InvalidProofBundleError(`${name} is invalid: ${e.message}`)
+        }
+        throw e
+    }
+}
+
+/*
+ * @return The proof bundle represented by the output of exportProofBundle().
+ *         Throws an InvalidProofBundleError if any field is missing,
+ *         unexpected, or invalid, or if the bundle was made with a different
+ *         SRS.
+ * @param json The output of exportProofBundle().
+ * @param srs The SRS with which the proof should have been made. Defaults to
+ *            defaultSRS.
+ */
+const importProofBundle = (
+    json: string,
+    srs: SRS = defaultSRS,
+): ProofBundle => {
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(json)
+    } catch (e) {
+        throw new InvalidProofBundleError('The bundle is not valid JSON')
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new InvalidProofBundleError('The bundle must be an object')
+    }
+    const data = parsed as { [key: string]: unknown }
+
+    const keys = [
+        'version', 'scheme', 'curve', 'srsId', 'domain', 'commitment',
+        'proof', 'indices', 'values',
+    ]
+    for (const key of Object.keys(data)) {
+        if (keys.indexOf(key) === -1) {
+            throw new InvalidProofBundleError(`Unexpected field ${key}`)
+        }
+    }
+    for (const key of keys) {
+        if (!(key in data)) {
+            throw new InvalidProofBundleError(`Missing field ${key}`)
+        }
+    }
+
+    if (data.version !== PROOF_BUNDLE_VERSION) {
+        throw new InvalidProofBundleError(`Unsupported version ${data.version}`)
+    }
+    if (data.scheme !== 'kzg' && data.scheme !== 'kzg-multi') {
+        throw new InvalidProofBundleError(`Unsupported scheme ${data.scheme}`)
+    }
+    const scheme: ProofScheme = data.scheme
+    if (data.curve !== 'bn254') {
+        throw new InvalidProofBundleError(`Unsupported curve ${data.curve}`)
+    }
+    if (data.srsId !== genSrsId(srs)) {
+        throw new InvalidProofBundleError('The bundle was made with a different SRS')
+    }
+
+    let domain: EvaluationDomain | undefined
+    if (data.domain !== null) {
+        const d = typeof data.domain === 'object' && data.domain !== null ?
+            data.domain as { [key: string]: unknown } : {}
+        const size = d.size
+        if (
+            typeof size !== 'number' ||
+            Object.keys(d).sort().join() !== 'cosetOffset,size' ||
+            !Number.isInteger(size) ||
+            size < 1 ||
+            (size & (size - 1)) !== 0
+        ) {
+            throw new InvalidProofBundleError(
+                'domain must be null or have a power-of-two size and a cosetOffset',
+            )
+        }
+        const cosetOffset = parseBundleFieldElement(d.cosetOffset, 'domain.cosetOffset')
+        if (cosetOffset === BigInt(0)) {
+            throw new InvalidProofBundleError('domain.cosetOffset must not be zero')
+        }
+        try {
+            domain = genEvaluationDomain(size, cosetOffset)
+        } catch (e) {
+            throw new InvalidProofBundleError('domain.size is too large')
+        }
+    }
+
+    const isMulti = scheme === 'kzg-multi'
+    const commitment = parseBundlePoint(data.commitment, 'commitment', false)
+    const proof = parseBundlePoint(data.proof, 'proof', isMulti)
+
+    if (!Array.isArray(data.indices) || !Array.isArray(data.values)) {
+        throw new InvalidProofBundleError('indices and values must be arrays')
+    }
+    const indices = data.indices.map(
+        (x: unknown, i: number) => parseBundleFieldElement(x, `indices[${i}]`),
+    )
+    const values = data.values.map(
+        (x: unknown, i: number) => parseBundleFieldElement(x, `values[${i}]`),
+    )
+    if (indices.length === 0 || indices.length !== values.length) {
+        throw new InvalidProofBundleError(
+            'indices and values must be non-empty and of the same length',
+        )
+    }
+    if (!isMulti && indices.length !== 1) {
+        throw new InvalidProofBundleError('A kzg bundle must have one index')
+    }
+    if (new Set(indices.map((x: bigint) => x.toString())).size !== indices.length) {
+        throw new InvalidProofBundleError('indices must be distinct')
+    }
+    if (domain !== undefined) {
+        for (const index of indices) {
+            if (index >= BigInt(domain.size)) {
+                throw new InvalidProofBundleError('indices must be less than domain.size')
+            }
+        }
+    }
+
+    return {
+        scheme,
+        commitment,
+        proof,
+        indices,
+        values,
+        domain,
+    }
+}
+
+/*
+ * Returns true if the proof in the bundle is valid, and false otherwise. Uses
+ * verify() or verifyMulti() depending on the scheme of the bundle.
+ */
+const verifyBundle = (
+    bundle: ProofBundle,
+    srs: SRS = defaultSRS,
+): boolean => {
+    checkBundleShape(bundle)
+    if (bundle.scheme === 'kzg') {
+        return verify(
+            bundle.commitment,
+            bundle.proof,
+            bundle.indices[0],
+            bundle.values[0],
+            FIELD_SIZE,
+            bundle.domain,
+            srs,
+        )
+    }
+
+    return verifyMulti(
+        bundle.commitment,
+        bundle.proof,
+        bundle.indices,
+        bundle.values,
+        FIELD_SIZE,
+        bundle.domain,
+        srs,
+    )
+}
+
 /*
  * @return The hexadecimal representation of a value, padded to have 64
  *         characters. Does not add the 0x prefix.
  */
 const hexify = (value: bigint) => {
-    const p = value.toString(16)
-    assert(p.length <= 64)
-    return p.padStart(64, '0')
+    const q = ffjavascript.bn128.q
+    if (value < BigInt(0) || value >= q) {
+        throw new InvalidFieldElementError(value, q)
+    }
+    return value.toString(16).padStart(64, '0')
 }
 
 /*
@@ -515,7 +2533,9 @@ const hexify = (value: bigint) => {
 const isValidPairing = (
     inputs: PairingInputs[],
 ): boolean => {
-    assert(inputs.length > 0)
+    if (inputs.length === 0) {
+        throw new InvalidArgumentError('inputs', 'At least one pair of points is needed')
+    }
 
     let hexStr = ''
     for (const input of inputs) {
@@ -544,21 +2564,94 @@ const isValidPairing = (
 
 export {
     FIELD_SIZE,
+    MAX_G1_SOL_POINTS,
     genBabyJubField,
+    genEvaluationDomain,
+    EvaluationDomain,
     genCoefficients,
+    toFieldElement,
     genQuotientPolynomial,
     commit,
+    srsLagrangeG1,
+    commitEvaluations,
+    genProofFromEvaluations,
+    addCommitments,
+    scaleCommitment,
+    linearCombination,
+    addProofs,
+    scaleProof,
+    linearCombinationProofs,
+    updateCommitment,
+    aggregateProofs,
+    genDegreeProof,
+    verifyDegreeProof,
     genProof,
+    genAllProofs,
+    genBatchChallenge,
+    genBatchProof,
     genMultiProof,
+    genMultiProofG1,
+    genBDFGProof,
+    Transcript,
     verify,
     verifyViaEIP197,
     verifyMulti,
+    verifyMultiG1,
+    verifyBatch,
+    verifyBDFG,
+    batchVerify,
+    batchVerifyViaEIP197,
+    BatchVerifyItem,
     genVerifierContractParams,
     genMultiVerifierContractParams,
+    genMultiVerifierContractParamsG1,
     isValidPairing,
+    genBlindingPolynomial,
+    commitHiding,
+    genHidingProof,
+    verifyHiding,
+    HidingProof,
+    SRS,
+    HidingSRS,
+    HIDING_GENERATOR,
+    createSRS,
+    createHidingSRS,
+    loadJsonSRS,
+    loadBinarySRS,
+    writeBinarySRS,
+    defaultSRS,
+    checkSRS,
+    verifySRS,
+    genSrsId,
+    exportProofBundle,
+    importProofBundle,
+    verifyBundle,
+    ProofBundle,
+    ProofScheme,
+    InvalidProofBundleError,
+    KzgError,
+    InvalidArgumentError,
+    DegreeTooLargeError,
+    TooManyPointsError,
+    InvalidFieldElementError,
+    InvalidPointError,
+    SrsTooSmallError,
+    serializeG1,
+    deserializeG1,
+    serializeG2,
+    deserializeG2,
+    DeserializationError,
+    InvalidEncodingError,
+    PointNotOnCurveError,
+    PointNotInSubgroupError,
     Coefficient,
     Polynomial,
     Commitment,
     genZeroPoly,
     Proof,
+    MultiProof,
+    MultiProofG1,
+    DegreeProof,
+    IndexedProof,
+    BDFGProof,
 }
@@ -0,0 +1,701 @@
+import * as assert from 'assert'
+import * as galois from '@guildofweavers/galois'
+import { ec } from 'elliptic'
+
+// A G1 or G2 point
+type GroupPoint = ec
+
+/*
+ * The operations of G1 or G2 which the group transforms use.
+ */
+interface Group {
+    zero: GroupPoint;
+    add(a: GroupPoint, b: GroupPoint): GroupPoint;
+    sub(a: GroupPoint, b: GroupPoint): GroupPoint;
+    mulScalar(a: GroupPoint, scalar: bigint): GroupPoint;
+}
+
+// 5 generates the multiplicative group of the BN254 scalar field
+const MULTIPLICATIVE_GENERATOR = BigInt(5)
+
+// FIELD_SIZE - 1 is divisible by 2^28, so the largest radix-2 NTT over the
+// BN254 scalar field has 2^28 points
+const MAX_NTT_LOG_SIZE = 28
+
+// Below this number of coefficients, schoolbook multiplication is faster than
+// multiplication via the NTT
+const NTT_MUL_THRESHOLD = 64
+
+// Below this number of group elements, middle products are computed directly
+// rather than via the NTT of the group elements
+const GROUP_NTT_THRESHOLD = 32
+
+/*
+ * @return The modular exponentiation of base to the power of exp, mod p.
+ */
+const modPow = (
+    base: bigint,
+    exp: bigint,
+    p: bigint,
+): bigint => {
+    let result = BigInt(1)
+    base = ((base % p) + p) % p
+    while (exp > BigInt(0)) {
+        if ((exp & BigInt(1)) === BigInt(1)) {
+            result = (result * base) % p
+        }
+        base = (base * base) % p
+        exp >>= BigInt(1)
+    }
+    return result
+}
+
+const isPowerOfTwo = (n: number): boolean => {
+    return n > 0 && (n & (n - 1)) === 0
+}
+
+/*
+ * @return The smallest power of 2 which is greater than or equal to n.
+ */
+const nextPowerOfTwo = (n: number): number => {
+    let result = 1
+    while (result < n) {
+        result *= 2
+    }
+    return result
+}
+
+/*
+ * @return A primitive n-th root of unity in the field, where n is a power of
+ *         2 no larger than 2^28.
+ * @param field The BN254 scalar field.
+ * @param n The order of the root of unity.
+ */
+const getRootOfUnity = (
+    field: galois.FiniteField,
+    n: number,
+): bigint => {
+    assert(isPowerOfTwo(n))
+    assert(n <= 2 ** MAX_NTT_LOG_SIZE)
+
+    const p = field.characteristic
+    assert((p - BigInt(1)) % BigInt(n) === BigInt(0))
+
+    return modPow(MULTIPLICATIVE_GENERATOR, (p - BigInt(1)) / BigInt(n), p)
+}
+
+/*
+ * Reorders the given array in place such that the element at index i is
+ * swapped with the element at the bit-reversal of i.
+ */
+const bitReversePermute = <T>(
+    values: T[],
+) => {
+    const n = values.length
+    for (let i = 1, j = 0; i < n; i ++) {
+        let bit = n >> 1
+        for (; j & bit; bit >>= 1) {
+            j ^= bit
+        }
+        j ^= bit
+        if (i < j) {
+            const tmp = values[i]
+            values[i] = values[j]
+            values[j] = tmp
+        }
+    }
+}
+
+/*
+ * @return The twiddle factors w^0, w^1, ..., w^(half - 1) for a layer of the
+ *         transform of length 2 * half, where w = root^(n / (2 * half)).
+ */
+const genTwiddles = (
+    root: bigint,
+    n: number,
+    half: number,
+    p: bigint,
+): bigint[] => {
+    const wLen = modPow(root, BigInt(n / (2 * half)), p)
+    const twiddles: bigint[] = [BigInt(1)]
+    for (let k = 1; k < half; k ++) {
+        twiddles.push((twiddles[k - 1] * wLen) % p)
+    }
+    return twiddles
+}
+
+/*
+ * Performs an in-place iterative radix-2 Cooley-Tukey transform.
+ */
+const transform = (
+    values: bigint[],
+    root: bigint,
+    p: bigint,
+) => {
+    const n = values.length
+    bitReversePermute(values)
+
+    for (let len = 2; len <= n; len <<= 1) {
+        const half = len >> 1
+        const twiddles = genTwiddles(root, n, half, p)
+
+        for (let i = 0; i < n; i += len) {
+            for (let k = 0; k < half; k ++) {
+                const u = values[i + k]
+                const v = (values[i + k + half] * twiddles[k]) % p
+                values[i + k] = u + v >= p ? u + v - p : u + v
+                values[i + k + half] = u >= v ? u - v : u - v + p
+            }
+        }
+    }
+}
+
+/*
+ * @return The evaluations of the polynominal with the given coefficients at
+ *         each power of a primitive n-th root of unity w, in the order w^0,
+ *         w^1, ..., w^(n - 1).
+ * @param field The BN254 scalar field.
+ * @param coefficients The coefficients of the polynominal. The number of
+ *                     coefficients, n, must be a power of 2.
+ * @param root A primitive n-th root of unity. Defaults to
+ *             getRootOfUnity(field, n).
+ */
+const ntt = (
+    field: galois.FiniteField,
+    coefficients: bigint[],
+    root?: bigint,
+): bigint[] => {
+    const n = coefficients.length
+    assert(isPowerOfTwo(n))
+
+    const p = field.characteristic
+    const values = coefficients.map((x) => ((BigInt(x) % p) + p) % p)
+    transform(values, root === undefined ? getRootOfUnity(field, n) : root, p)
+    return values
+}
+
+/*
+ * @return The coefficients of the polynominal which evaluates to values[i]
+ *         at w^i, where w is a primitive n-th root of unity. This is the
+ *         inverse of ntt().
+ * @param field The BN254 scalar field.
+ * @param values The evaluations. The number of values, n, must be a power
+ *               of 2.
+ * @param root A primitive n-th root of unity. Defaults to
+ *             getRootOfUnity(field, n).
+ */
+const intt = (
+    field: galois.FiniteField,
+    values: bigint[],
+    root?: bigint,
+): bigint[] => {
+    const n = values.length
+    assert(isPowerOfTwo(n))
+
+    const p = field.characteristic
+    const w = root === undefined ? getRootOfUnity(field, n) : root
+    const coefficients = ntt(field, values, field.inv(w))
+    const nInv = field.inv(BigInt(n))
+    return coefficients.map((x) => (x * nInv) % p)
+}
+
+/*
+ * @return The NTT of a vector of group elements. That is, the i-th output is
+ *         sum(points[j] * w^(i * j)) for a primitive n-th root of unity w.
+ *         Each butterfly requires a scalar multiplication, so this takes
+ *         O(n log n) scalar multiplications.
+ * @param field The BN254 scalar field.
+ * @param G The group (G1 or G2) which the points belong to.
+ * @param points The points. The number of points, n, must be a power of 2.
+ * @param root A primitive n-th root of unity. Defaults to
+ *             getRootOfUnity(field, n).
+ */
+const groupNtt = (
+    field: galois.FiniteField,
+    G: Group,
+    points: GroupPoint[],
+    root?: bigint,
+): GroupPoint[] => {
+    const n = points.length
+    assert(isPowerOfTwo(n))
+
+    const p = field.characteristic
+    const w = root === undefined ? getRootOfUnity(field, n) : root
+    const values = points.slice()
+    bitReversePermute(values)
+
+    for (let len = 2; len <= n; len <<= 1) {
+        const half = len >> 1
+        const twiddles = genTwiddles(w, n, half, p)
+
+        for (let i = 0; i < n; i += len) {
+            for (let k = 0; k < half; k ++) {
+                const u = values[i + k]
+                let v = values[i + k + half]
+                if (k !== 0) {
+                    v = G.mulScalar(v, twiddles[k])
+                }
+                values[i + k] = G.add(u, v)
+                values[i + k + half] = G.sub(u, v)
+            }
+        }
+    }
+
+    return values
+}
+
+/*
+ * @return The inverse of groupNtt().
+ * @param field The BN254 scalar field.
+ * @param G The group (G1 or G2) which the points belong to.
+ * @param points The points. The number of points, n, must be a power of 2.
+ * @param root A primitive n-th root of unity. Defaults to
+ *             getRootOfUnity(field, n).
+ */
+const groupIntt = (
+    field: galois.FiniteField,
+    G: Group,
+    points: GroupPoint[],
+    root?: bigint,
+): GroupPoint[] => {
+    const n = points.length
+    const w = root === undefined ? getRootOfUnity(field, n) : root
+    const nInv = field.inv(BigInt(n))
+    return groupNtt(field, G, points, field.inv(w)).map(
+        (x) => G.mulScalar(x, nInv),
+    )
+}
+
+/*
+ * @return The given polynominal without any trailing zero coefficients.
+ */
+const trimPoly = (
+    poly: bigint[],
+): bigint[] => {
+    let len = poly.length
+    while (len > 0 && poly[len - 1] === BigInt(0)) {
+        len --
+    }
+    return poly.slice(0, len)
+}
+
+/*
+ * @return The coefficients of the product of two polynominals. The NTT is
+ *         used unless either polynominal is small.
+ * @param field The BN254 scalar field.
+ * @param a The coefficients of the first polynominal.
+ * @param b The coefficients of the second polynominal.
+ */
+const mulPolysNTT = (
+    field: galois.FiniteField,
+    a: bigint[],
+    b: bigint[],
+): bigint[] => {
+    if (a.length === 0 || b.length === 0) {
+        return []
+    }
+
+    const p = field.characteristic
+    const resultLength = a.length + b.length - 1
+
+    if (Math.min(a.length, b.length) < NTT_MUL_THRESHOLD) {
+        const result: bigint[] = new Array(resultLength).fill(BigInt(0))
+        for (let i = 0; i < a.length; i ++) {
+            for (let j = 0; j < b.length; j ++) {
+                result[i + j] = (result[i + j] + a[i] * b[j]) % p
+            }
+        }
+        return result
+    }
+
+    const n = nextPowerOfTwo(resultLength)
+    const root = getRootOfUnity(field, n)
+    const padded = (x: bigint[]) => x.concat(new Array(n - x.length).fill(BigInt(0)))
+
+    const aEvals = ntt(field, padded(a), root)
+    const bEvals = ntt(field, padded(b), root)
+    for (let i = 0; i < n; i ++) {
+        aEvals[i] = (aEvals[i] * bEvals[i]) % p
+    }
+
+    return intt(field, aEvals, root).slice(0, resultLength)
+}
+
+/*
+ * @return The first k coefficients of the inverse of a power series, using
+ *         Newton iteration.
+ * @param field The BN254 scalar field.
+ * @param a The coefficients of the power series. a[0] must not be 0.
+ * @param k The number of coefficients to compute.
+ */
+const invPolyModXk = (
+    field: galois.FiniteField,
+    a: bigint[],
+    k: number,
+): bigint[] => {
+    assert(a.length > 0 && a[0] !== BigInt(0))
+
+    const p = field.characteristic
+    let result = [field.inv(a[0])]
+    let len = 1
+    while (len < k) {
+        len *= 2
+        // result = result * (2 - a * result) mod x^len
+        const product = mulPolysNTT(field, a.slice(0, len), result).slice(0, len)
+        const correction = product.map((x) => x === BigInt(0) ? x : p - x)
+        correction[0] = (correction[0] + BigInt(2)) % p
+        result = mulPolysNTT(field, result, correction).slice(0, len)
+    }
+    return result.slice(0, k)
+}
+
+/*
+ * @return The coefficients of the quotient of the division of a by b,
+ *         discarding the remainder. This takes O(n log n) operations, by
+ *         inverting the reversed divisor as a power series.
+ * @param field The BN254 scalar field.
+ * @param a The coefficients of the dividend.
+ * @param b The coefficients of the divisor.
+ */
+const divPolysNTT = (
+    field: galois.FiniteField,
+    a: bigint[],
+    b: bigint[],
+): bigint[] => {
+    a = trimPoly(a)
+    b = trimPoly(b)
+    assert(b.length > 0)
+
+    if (a.length < b.length) {
+        return []
+    }
+
+    // rev(q) = rev(a) / rev(b) mod x^(deg(a) - deg(b) + 1)
+    const quotientLength = a.length - b.length + 1
+    const aRev = a.slice().reverse().slice(0, quotientLength)
+    const bRevInv = invPolyModXk(field, b.slice().reverse(), quotientLength)
+    const qRev = mulPolysNTT(field, aRev, bRevInv).slice(0, quotientLength)
+
+    return qRev.reverse()
+}
+
+/*
+ * @return The coefficients of the remainder of the division of a by b.
+ * @param field The BN254 scalar field.
+ * @param a The coefficients of the dividend.
+ * @param b The coefficients of the divisor.
+ */
+const modPolysNTT = (
+    field: galois.FiniteField,
+    a: bigint[],
+    b: bigint[],
+): bigint[] => {
+    const p = field.characteristic
+    const q = divPolysNTT(field, a, b)
+    const qb = mulPolysNTT(field, q, b)
+
+    const remainder: bigint[] = []
+    for (let i = 0; i < b.length - 1; i ++) {
+        const x = i < a.length ? a[i] : BigInt(0)
+        const y = i < qb.length ? qb[i] : BigInt(0)
+        remainder.push(((x - y) % p + p) % p)
+    }
+    return remainder
+}
+
+/*
+ * @return A subproduct tree for the given x-values. The first level contains
+ *         the polynominals (x - xs[i]), and each subsequent level contains
+ *         the products of pairs of polynominals in the level below it. The
+ *         last level contains the polynominal which intersects y=0 at every
+ *         x-value.
+ * @param field The BN254 scalar field.
+ * @param xs The x-values.
+ */
+const genSubproductTree = (
+    field: galois.FiniteField,
+    xs: bigint[],
+): bigint[][][] => {
+    assert(xs.length > 0)
+
+    const p = field.characteristic
+    const tree: bigint[][][] = [
+        xs.map((x) => [((p - BigInt(x)) % p + p) % p, BigInt(1)]),
+    ]
+
+    while (tree[tree.length - 1].length > 1) {
+        const level = tree[tree.length - 1]
+        const next: bigint[][] = []
+        for (let i = 0; i < level.length; i += 2) {
+            if (i + 1 < level.length) {
+                next.push(mulPolysNTT(field, level[i], level[i + 1]))
+            } else {
+                next.push(level[i])
+            }
+        }
+        tree.push(next)
+    }
+
+    return tree
+}
+
+/*
+ * @return The coefficients of the polynominal which intersects y=0 at every
+ *         given x-value.
+ * @param field The BN254 scalar field.
+ * @param xs The x-values.
+ */
+const genZeroPolyNTT = (
+    field: galois.FiniteField,
+    xs: bigint[],
+): bigint[] => {
+    const tree = genSubproductTree(field, xs)
+    return tree[tree.length - 1][0]
+}
+
+/*
+ * @return The evaluations of a polynominal at each of the x-values in the
+ *         given subproduct tree, computed by reducing the polynominal down
+ *         the tree.
+ */
+const evalPolyAtTree = (
+    field: galois.FiniteField,
+    poly: bigint[],
+    tree: bigint[][][],
+): bigint[] => {
+    const p = field.characteristic
+    let remainders = [
+        modPolysNTT(field, poly, tree[tree.length - 1][0]),
+    ]
+
+    for (let level = tree.length - 2; level >= 0; level --) {
+        const next: bigint[][] = []
+        for (let i = 0; i < tree[level].length; i ++) {
+            const parent = remainders[i >> 1]
+            next.push(modPolysNTT(field, parent, tree[level][i]))
+        }
+        remainders = next
+    }
+
+    return remainders.map((r) => r.length === 0 ? BigInt(0) : r[0] % p)
+}
+
+/*
+ * @return The evaluations of a polynominal at each of the given x-values,
+ *         using O(n log^2 n) operations.
+ * @param field The BN254 scalar field.
+ * @param poly The coefficients of the polynominal.
+ * @param xs The x-values.
+ */
+const evalPolyAtPointsNTT = (
+    field: galois.FiniteField,
+    poly: bigint[],
+    xs: bigint[],
+): bigint[] => {
+    return evalPolyAtTree(field, poly, genSubproductTree(field, xs))
+}
+
+/*
+ * @return The coefficients of the polynominal which intersects each point
+ *         (xs[i], ys[i]), using O(n log^2 n) operations. The x-values must be
+ *         distinct.
+ * @param field The BN254 scalar field.
+ * @param xs The x-values.
+ * @param ys The y-values.
+ * @param denominators The Lagrange denominators prod(xs[i] - xs[j]) for each
+ *                     i and j != i, if they are already known. Otherwise,
+ *                     they are computed with a multipoint evaluation.
+ */
+const interpolateNTT = (
+    field: galois.FiniteField,
+    xs: bigint[],
+    ys: bigint[],
+    denominators?: bigint[],
+): bigint[] => {
+    assert(xs.length === ys.length)
+
+    const p = field.characteristic
+    const tree = genSubproductTree(field, xs)
+
+    if (denominators === undefined) {
+        // The Lagrange denominators are the evaluations of the derivative of
+        // the zero polynominal at each x-value
+        const zPoly = tree[tree.length - 1][0]
+        const zDeriv: bigint[] = []
+        for (let i = 1; i < zPoly.length; i ++) {
+            zDeriv.push((zPoly[i] * BigInt(i)) % p)
+        }
+        denominators = evalPolyAtTree(field, zDeriv, tree)
+    }
+    assert(denominators.length === xs.length)
+
+    // Combine ys[i] / denominators[i] * Z(x) / (x - xs[i]) up the tree
+    let combined: bigint[][] = []
+    for (let i = 0; i < xs.length; i ++) {
+        combined.push([
+            (((BigInt(ys[i]) % p) + p) % p * field.inv(denominators[i])) % p,
+        ])
+    }
+
+    for (let level = 0; level < tree.length - 1; level ++) {
+        const next: bigint[][] = []
+        for (let i = 0; i < combined.length; i += 2) {
+            if (i + 1 < combined.length) {
+                const left = mulPolysNTT(field, combined[i], tree[level][i + 1])
+                const right = mulPolysNTT(field, combined[i + 1], tree[level][i])
+                const sum: bigint[] = []
+                for (let j = 0; j < Math.max(left.length, right.length); j ++) {
+                    const l = j < left.length ? left[j] : BigInt(0)
+                    const r = j < right.length ? right[j] : BigInt(0)
+                    sum.push((l + r) % p)
+                }
+                next.push(sum)
+            } else {
+                next.push(combined[i])
+            }
+        }
+        combined = next
+    }
+
+    return combined[0]
+}
+
+/*
+ * @return The middle products of a vector of group elements and each of the
+ *         given polynominals. That is, for each polynominal poly and each
+ *         i < counts[k], the i-th output is sum(points[i + j] * poly[j]),
+ *         which needs points[0 ... counts[k] + poly.length - 2]. Above a
+ *         small size, the NTT of the points is shared by all the
+ *         polynominals.
+ */
+const groupMiddleProducts = (
+    field: galois.FiniteField,
+    G: Group,
+    points: GroupPoint[],
+    polys: bigint[][],
+    counts: number[],
+): GroupPoint[][] => {
+    const p = field.characteristic
+
+    if (points.length < GROUP_NTT_THRESHOLD) {
+        // The coefficients of the zero polynominal of a few small x-values
+        // are small, but may be negative, and a scalar multiplication takes
+        // time in proportion to the bit length of the scalar
+        const half = p / BigInt(2)
+        return polys.map((poly, k) => {
+            const result: GroupPoint[] = []
+            for (let i = 0; i < counts[k]; i ++) {
+                let sum = G.zero
+                for (let j = 0; j < poly.length; j ++) {
+                    const c = ((poly[j] % p) + p) % p
+                    if (c > half) {
+                        sum = G.sub(sum, G.mulScalar(points[i + j], p - c))
+                    } else if (c !== BigInt(0)) {
+                        sum = G.add(sum, G.mulScalar(points[i + j], c))
+                    }
+                }
+                result.push(sum)
+            }
+            return result
+        })
+    }
+
+    // The i-th middle product is the (i + poly.length - 1)-th coefficient of
+    // the product of the points and the reversed polynominal. As every such
+    // coefficient is below points.length, a cyclic convolution of that
+    // length does not wrap around into them.
+    const n = nextPowerOfTwo(points.length)
+    const root = getRootOfUnity(field, n)
+    const nInv = field.inv(BigInt(n))
+    const padded = points.concat(new Array(n - points.length).fill(G.zero))
+    const pointEvals = groupNtt(field, G, padded, root)
+
+    return polys.map((poly, k) => {
+        const reversed = poly.slice().reverse()
+        const polyEvals = ntt(
+            field,
+            reversed.concat(new Array(n - reversed.length).fill(BigInt(0))),
+            root,
+        )
+        const products = pointEvals.map(
+            (x, i) => G.mulScalar(x, (polyEvals[i] * nInv) % p),
+        )
+        const result = groupNtt(field, G, products, field.inv(root))
+        return result.slice(poly.length - 1, poly.length - 1 + counts[k])
+    })
+}
+
+/*
+ * @return For each x-value xs[i], the sum of points[j] times the j-th
+ *         coefficient of Z(x) / (x - xs[i]), where Z(x) is the polynominal
+ *         which intersects y=0 at every x-value. If the points are the powers
+ *         of tau in a group, these are the commitments to Z(x) / (x - xs[i]).
+ *         This is the transpose of a multipoint evaluation: for a node of
+ *         the subproduct tree with children A(x) and B(x), each quotient of
+ *         a leaf under A(x) is B(x) times a quotient of A(x), so the points
+ *         are multiplied by B(x) on the way down. This takes
+ *         O(n log^2 n) scalar multiplications.
+ * @param field The BN254 scalar field.
+ * @param G The group (G1 or G2) which the points belong to.
+ * @param points At least xs.length points.
+ * @param xs The x-values, which must be distinct.
+ */
+const groupZeroQuotients = (
+    field: galois.FiniteField,
+    G: Group,
+    points: GroupPoint[],
+    xs: bigint[],
+): GroupPoint[] => {
+    assert(points.length >= xs.length)
+
+    const tree = genSubproductTree(field, xs)
+
+    // Each level holds, for each node, the points multiplied by the product
+    // of every other node of the level, truncated to the degree of the node
+    let level = tree.length - 1
+    let nodePoints = [points.slice(0, xs.length)]
+
+    while (level > 0) {
+        const children = tree[level - 1]
+        const next: GroupPoint[][] = []
+        for (let i = 0; i < nodePoints.length; i ++) {
+            if (2 * i + 1 >= children.length) {
+                // This node was carried up from the level below unchanged
+                next.push(nodePoints[i])
+                continue
+            }
+            const a = children[2 * i]
+            const b = children[2 * i + 1]
+            const [aPoints, bPoints] = groupMiddleProducts(
+                field,
+                G,
+                nodePoints[i],
+                [b, a],
+                [a.length - 1, b.length - 1],
+            )
+            next.push(aPoints, bPoints)
+        }
+        nodePoints = next
+        level --
+    }
+
+    return nodePoints.map((x) => x[0])
+}
+
+export {
+    MAX_NTT_LOG_SIZE,
+    getRootOfUnity,
+    isPowerOfTwo,
+    nextPowerOfTwo,
+    ntt,
+    intt,
+    groupNtt,
+    groupIntt,
+    mulPolysNTT,
+    divPolysNTT,
+    modPolysNTT,
+    evalPolyAtPointsNTT,
+    genZeroPolyNTT,
+    interpolateNTT,
+    groupZeroQuotients,
+}
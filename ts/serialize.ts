@@ -0,0 +1,370 @@
+import * as ffjavascript from 'ffjavascript'
+import { ec } from 'elliptic'
+import { InvalidPointError } from './errors'
+
+const bn128 = ffjavascript.bn128
+const G1 = bn128.G1
+const G2 = bn128.G2
+const F1 = bn128.F1
+const F2 = bn128.F2
+
+type G1Point = ec
+type G2Point = ec
+
+// The BN254 base field size
+const Q: bigint = bn128.q
+
+const FIELD_ELEMENT_BYTES = 32
+
+// Flags in the two most significant bits of the last byte, as used by
+// arkworks' SWFlags for BN254
+const FLAG_Y_IS_NEGATIVE = 0x80
+const FLAG_INFINITY = 0x40
+const FLAG_MASK = FLAG_Y_IS_NEGATIVE | FLAG_INFINITY
+
+/*
+ * Thrown when a serialized point cannot be deserialized.
+ */
+class DeserializationError extends InvalidPointError {}
+
+/*
+ * Thrown when serialized data has the wrong length, invalid flags, or a
+ * coordinate which is not less than the base field size.
+ */
+class InvalidEncodingError extends DeserializationError {}
+
+/*
+ * Thrown when a deserialized point is not on the curve.
+ */
+class PointNotOnCurveError extends DeserializationError {}
+
+/*
+ * Thrown when a deserialized point is on the curve but not in the subgroup of
+ * order FIELD_SIZE.
+ */
+class PointNotInSubgroupError extends DeserializationError {}
+
+/*
+ * @return The 32-byte little-endian representation of a base field element.
+ */
+const fieldToBytes = (x: bigint): Buffer => {
+    const hex = BigInt(x).toString(16).padStart(FIELD_ELEMENT_BYTES * 2, '0')
+    return Buffer.from(hex, 'hex').reverse()
+}
+
+/*
+ * @return The base field element represented by 32 little-endian bytes.
+ *         Throws an InvalidEncodingError if it is not less than the base
+ *         field size.
+ */
+const bytesToField = (bytes: Buffer): bigint => {
+    const x = BigInt('0x' + Buffer.from(bytes).reverse().toString('hex'))
+    if (x >= Q) {
+        throw new InvalidEncodingError(bytes, 'Coordinate is not less than the base field size')
+    }
+    return x
+}
+
+/*
+ * @return True if y is lexicographically larger than -y, which is the
+ *         definition of a negative y-coordinate in arkworks.
+ */
+const isNegativeF1 = (y: bigint): boolean => {
+    return y > F1.neg(y)
+}
+
+// Elements of the quadratic extension field are compared by c1 first
+const isNegativeF2 = (y: bigint[]): boolean => {
+    if (y[1] !== BigInt(0)) {
+        return isNegativeF1(y[1])
+    }
+    return isNegativeF1(y[0])
+}
+
+/*
+ * @return The square root of a in the quadratic extension field, or null if
+ *         it has none. As the base field size is 3 modulo 4, this uses
+ *         Algorithm 9 of https://eprint.iacr.org/2012/685.
+ */
+const sqrtF2 = (a: bigint[]): bigint[] | null => {
+    const minusOne = F2.neg(F2.one)
+    const a1 = F2.exp(a, (Q - BigInt(3)) / BigInt(4))
+    const alpha = F2.mul(a1, F2.mul(a1, a))
+    const a0 = F2.mul(F2.exp(alpha, Q), alpha)
+    if (F2.eq(a0, minusOne)) {
+        return null
+    }
+
+    const x0 = F2.mul(a1, a)
+    let x: bigint[]
+    if (F2.eq(alpha, minusOne)) {
+        x = F2.mul([F1.zero, F1.one], x0)
+    } else {
+        const b = F2.exp(F2.add(F2.one, alpha), (Q - BigInt(1)) / BigInt(2))
+        x = F2.mul(b, x0)
+    }
+
+    return F2.eq(F2.square(x), a) ? x : null
+}
+
+/*
+ * @return The y-coordinate squared, i.e. x^3 + b, for a G1 point.
+ */
+const g1YSquared = (x: bigint): bigint => {
+    return F1.add(F1.mul(F1.square(x), x), bn128.coef_b)
+}
+
+/*
+ * @return The y-coordinate squared, i.e. x^3 + b', for a G2 point.
+ */
+const g2YSquared = (x: bigint[]): bigint[] => {
+    return F2.add(F2.mul(F2.square(x), x), bn128.twist_coeff_b)
+}
+
+/*
+ * @return True if the G1 point is on the curve. As G1 has a cofactor of 1,
+ *         this means that it is also in the subgroup of order FIELD_SIZE.
+ */
+const isOnCurveG1 = (point: G1Point): boolean => {
+    if (G1.eq(point, G1.zero)) {
+        return true
+    }
+    const affine = G1.affine(point)
+    return F1.eq(F1.square(affine[1]), g1YSquared(affine[0]))
+}
+
+/*
+ * @return True if the G2 point is on the twisted curve.
+ */
+const isOnCurveG2 = (point: G2Point): boolean => {
+    if (G2.eq(point, G2.zero)) {
+        return true
+    }
+    const affine = G2.affine(point)
+    return F2.eq(F2.square(affine[1]), g2YSquared(affine[0]))
+}
+
+/*
+ * @return True if the G2 point, which must be on the curve, is in the
+ *         subgroup of order FIELD_SIZE. This takes a scalar multiplication.
+ */
+const isInSubgroupG2 = (point: G2Point): boolean => {
+    return G2.eq(G2.mulScalar(point, bn128.r), G2.zero)
+}
+
+/*
+ * @return The flags in the last byte of the given data, which is cleared in
+ *         a copy of the data.
+ */
+const splitFlags = (data: Buffer): { bytes: Buffer, flags: number } => {
+    const bytes = Buffer.from(data)
+    const flags = bytes[bytes.length - 1] & FLAG_MASK
+    bytes[bytes.length - 1] &= ~FLAG_MASK
+    if (flags === FLAG_MASK) {
+        throw new InvalidEncodingError(data, 'Both flags are set')
+    }
+    return { bytes, flags }
+}
+
+/*
+ * @return The given data as a Buffer, if it has the expected length.
+ */
+const checkLength = (data: Uint8Array, length: number): Buffer => {
+    if (data.length !== length) {
+        throw new InvalidEncodingError(
+            data,
+            `Expected ${length} bytes but got ${data.length}`,
+        )
+    }
+    return Buffer.from(data)
+}
+
+/*
+ * Throws an InvalidEncodingError if the point at infinity is not encoded as
+ * zeroes.
+ */
+const checkInfinity = (bytes: Buffer, flags: number) => {
+    if (flags !== FLAG_INFINITY || bytes.some((b) => b !== 0)) {
+        throw new InvalidEncodingError(bytes, 'Invalid encoding of the point at infinity')
+    }
+}
+
+/*
+ * @return The serialization of a G1 point, such as a Commitment or Proof, in
+ *         the format used by arkworks for BN254. The x-coordinate is encoded
+ *         in 32 little-endian bytes. If compressed, the most significant bit
+ *         of the last byte is set if the y-coordinate is negative, i.e.
+ *         larger than its negation. Otherwise, the 32-byte y-coordinate
+ *         follows and that bit is set in its last byte. The point at infinity
+ *         is encoded as zeroes with the second most significant bit of the
+ *         last byte set.
+ * @param point The G1 point, in Jacobian or affine coordinates.
+ * @param compressed Whether to omit the y-coordinate.
+ */
+const serializeG1 = (
+    point: G1Point,
+    compressed = true,
+): Buffer => {
+    const length = compressed ? FIELD_ELEMENT_BYTES : FIELD_ELEMENT_BYTES * 2
+    if (G1.eq(point, G1.zero)) {
+        const result = Buffer.alloc(length)
+        result[length - 1] = FLAG_INFINITY
+        return result
+    }
+
+    const affine = G1.affine(point)
+    const coords = compressed ? [affine[0]] : [affine[0], affine[1]]
+    const result = Buffer.concat(coords.map(fieldToBytes))
+    if (isNegativeF1(affine[1])) {
+        result[length - 1] |= FLAG_Y_IS_NEGATIVE
+    }
+    return result
+}
+
+/*
+ * @return The G1 point, in affine coordinates, which was serialized with
+ *         serializeG1(). Throws an InvalidEncodingError if the data is
+ *         malformed, and a PointNotOnCurveError if it does not encode a
+ *         point on the curve. As G1 has a cofactor of 1, every point on the
+ *         curve is in the subgroup.
+ * @param data 32 bytes if compressed, or 64 bytes if not.
+ * @param compressed Whether the y-coordinate is omitted.
+ * @param validate Whether to check that an uncompressed point is on the
+ *                 curve. Only skip this for trusted data, such as an SRS
+ *                 which has been checked with other means.
+ */
+const deserializeG1 = (
+    data: Uint8Array,
+    compressed = true,
+    validate = true,
+): G1Point => {
+    const length = compressed ? FIELD_ELEMENT_BYTES : FIELD_ELEMENT_BYTES * 2
+    const { bytes, flags } = splitFlags(checkLength(data, length))
+    if (flags & FLAG_INFINITY) {
+        checkInfinity(bytes, flags)
+        return G1.zero
+    }
+
+    const x = bytesToField(bytes.slice(0, FIELD_ELEMENT_BYTES))
+    let y: bigint
+    if (compressed) {
+        y = F1.sqrt(g1YSquared(x))
+        if (y === null) {
+            throw new PointNotOnCurveError(data, 'No point on the curve has this x-coordinate')
+        }
+        if (isNegativeF1(y) !== Boolean(flags & FLAG_Y_IS_NEGATIVE)) {
+            y = F1.neg(y)
+        }
+    } else {
+        y = bytesToField(bytes.slice(FIELD_ELEMENT_BYTES))
+        if (validate && !isOnCurveG1([x, y, F1.one])) {
+            throw new PointNotOnCurveError(data, 'The point is not on the curve')
+        }
+        if (isNegativeF1(y) !== Boolean(flags & FLAG_Y_IS_NEGATIVE)) {
+            throw new InvalidEncodingError(data, 'The sign flag does not match the y-coordinate')
+        }
+    }
+
+    return [x, y, F1.one]
+}
+
+/*
+ * @return The serialization of a G2 point, such as a MultiProof, in the
+ *         format used by arkworks for BN254. Each coordinate c0 + c1 * u is
+ *         encoded as c0 followed by c1, each in 32 little-endian bytes, and
+ *         the flags are as in serializeG1(). The sign of a coordinate is
+ *         that of c1, or of c0 if c1 is zero.
+ * @param point The G2 point, in Jacobian or affine coordinates.
+ * @param compressed Whether to omit the y-coordinate.
+ */
+const serializeG2 = (
+    point: G2Point,
+    compressed = true,
+): Buffer => {
+    const length = compressed ? FIELD_ELEMENT_BYTES * 2 : FIELD_ELEMENT_BYTES * 4
+    if (G2.eq(point, G2.zero)) {
+        const result = Buffer.alloc(length)
+        result[length - 1] = FLAG_INFINITY
+        return result
+    }
+
+    const affine = G2.affine(point)
+    const coords = compressed ? affine[0] : [...affine[0], ...affine[1]]
+    const result = Buffer.concat(coords.map(fieldToBytes))
+    if (isNegativeF2(affine[1])) {
+        result[length - 1] |= FLAG_Y_IS_NEGATIVE
+    }
+    return result
+}
+
+/*
+ * @return The G2 point, in affine coordinates, which was serialized with
+ *         serializeG2(). Throws an InvalidEncodingError if the data is
+ *         malformed, a PointNotOnCurveError if it does not encode a point on
+ *         the curve, and a PointNotInSubgroupError if the point is not in
+ *         the subgroup of order FIELD_SIZE.
+ * @param data 64 bytes if compressed, or 128 bytes if not.
+ * @param compressed Whether the y-coordinate is omitted.
+ * @param validate Whether to check that the point is in the subgroup and,
+ *                 if it is uncompressed, on the curve. The subgroup check
+ *                 takes a scalar multiplication, so only skip it for trusted
+ *                 data, such as an SRS which has been checked with other
+ *                 means.
+ */
+const deserializeG2 = (
+    data: Uint8Array,
+    compressed = true,
+    validate = true,
+): G2Point => {
+    const length = compressed ? FIELD_ELEMENT_BYTES * 2 : FIELD_ELEMENT_BYTES * 4
+    const { bytes, flags } = splitFlags(checkLength(data, length))
+    if (flags & FLAG_INFINITY) {
+        checkInfinity(bytes, flags)
+        return G2.zero
+    }
+
+    const coords: bigint[] = []
+    for (let i = 0; i < length; i += FIELD_ELEMENT_BYTES) {
+        coords.push(bytesToField(bytes.slice(i, i + FIELD_ELEMENT_BYTES)))
+    }
+    const x = [coords[0], coords[1]]
+    let y: bigint[] | null
+    if (compressed) {
+        y = sqrtF2(g2YSquared(x))
+        if (y === null) {
+            throw new PointNotOnCurveError(data, 'No point on the curve has this x-coordinate')
+        }
+        if (isNegativeF2(y) !== Boolean(flags & FLAG_Y_IS_NEGATIVE)) {
+            y = F2.neg(y)
+        }
+    } else {
+        y = [coords[2], coords[3]]
+        if (validate && !isOnCurveG2([x, y, F2.one])) {
+            throw new PointNotOnCurveError(data, 'The point is not on the curve')
+        }
+        if (isNegativeF2(y as bigint[]) !== Boolean(flags & FLAG_Y_IS_NEGATIVE)) {
+            throw new InvalidEncodingError(data, 'The sign flag does not match the y-coordinate')
+        }
+    }
+
+    const point = [x, y, F2.one]
+    if (validate && !isInSubgroupG2(point)) {
+        throw new PointNotInSubgroupError(point, 'The point is not in the subgroup')
+    }
+
+    return point
+}
+
+export {
+    DeserializationError,
+    InvalidEncodingError,
+    PointNotOnCurveError,
+    PointNotInSubgroupError,
+    serializeG1,
+    deserializeG1,
+    serializeG2,
+    deserializeG2,
+    isOnCurveG1,
+    isOnCurveG2,
+    isInSubgroupG2,
+}
@@ -0,0 +1,498 @@
+require('module-alias/register')
+import * as fs from 'fs'
+import { StringDecoder } from 'string_decoder'
+import * as ffjavascript from 'ffjavascript'
+import { ec } from 'elliptic'
+import { keccak256 } from 'js-sha3'
+import {
+    serializeG1,
+    deserializeG1,
+    serializeG2,
+    deserializeG2,
+    DeserializationError,
+} from './serialize'
+import {
+    KzgError,
+    InvalidArgumentError,
+    InvalidPointError,
+    SrsTooSmallError,
+} from './errors'
+
+type G1Point = ec
+type G2Point = ec
+
+const G1 = ffjavascript.bn128.G1
+const G2 = ffjavascript.bn128.G2
+
+// The header of a binary SRS file: the magic bytes, the format version, and
+// the number of G1 and G2 points, each a 32-bit little-endian integer
+const BINARY_SRS_MAGIC = 'KSRS'
+const BINARY_SRS_VERSION = 1
+const BINARY_SRS_HEADER_BYTES = 16
+const BINARY_SRS_G1_BYTES = 64
+const BINARY_SRS_G2_BYTES = 128
+
+// The number of bytes of a JSON SRS file which are read at a time
+const JSON_SRS_CHUNK_BYTES = 65536
+
+/*
+ * A structured reference string, i.e. the points tau^i * G1 and tau^i * G2
+ * for i = 0, 1, 2, ..., where tau is unknown.
+ */
+interface SRS {
+    // The number of G1 points available
+    sizeG1(): number;
+    // The number of G2 points available
+    sizeG2(): number;
+    // The first depth G1 points
+    g1(depth: number): G1Point[];
+    // The first depth G2 points
+    g2(depth: number): G2Point[];
+}
+
+/*
+ * An SRS which also holds the points tau^i * H for a second generator H of G1,
+ * for hiding commitments. H must be HIDING_GENERATOR, so that nobody knows its
+ * discrete logarithm with respect to G1.g.
+ */
+interface HidingSRS extends SRS {
+    // The number of points tau^i * H available
+    sizeH(): number;
+    // The first depth points tau^i * H
+    h(depth: number): G1Point[];
+}
+
+/*
+ * @return A G1 point whose discrete logarithm is unknown, found by hashing the
+ *         seed and a counter until the hash, with its flags cleared, is the
+ *         compressed serialization of a point. As G1 has a cofactor of 1,
+ *         every such point is in the subgroup.
+ */
+const hashToG1 = (seed: string): G1Point => {
+    for (let counter = 0; ; counter ++) {
+        const data = Buffer.from(keccak256.arrayBuffer(seed + counter))
+        data[31] &= 0x3f
+        try {
+            return deserializeG1(data)
+        } catch (e) {
+            if (!(e instanceof DeserializationError)) {
+                throw e
+            }
+        }
+    }
+}
+
+// The second generator of G1 for hiding commitments
+const HIDING_GENERATOR: G1Point = hashToG1('libkzg-hiding-generator')
+
+/*
+ * Throws an InvalidArgumentError if depth is not positive, and an
+ * SrsTooSmallError if it is larger than the number of points available.
+ */
+const checkDepth = (
+    group: 'G1' | 'G2' | 'H',
+    depth: number,
+    available: number,
+) => {
+    if (depth < 1) {
+        throw new InvalidArgumentError('depth', 'At least one point must be requested')
+    }
+    if (depth > available) {
+        throw new SrsTooSmallError(group, depth, available)
+    }
+}
+
+/*
+ * @return An SRS which reads points with the given functions, only when they
+ *         are first needed, and caches them. The first point of each group
+ *         must be its generator.
+ * @param sizeG1 Returns the number of G1 points available.
+ * @param sizeG2 Returns the number of G2 points available.
+ * @param readG1 Returns the G1 points from index start to end, exclusive, or
+ *               only those up to the last one if there are fewer.
+ * @param readG2 Returns the G2 points from index start to end, exclusive, or
+ *               only those up to the last one if there are fewer.
+ */
+const genLazySRS = (
+    sizeG1: () => number,
+    sizeG2: () => number,
+    readG1: (start: number, end: number) => G1Point[],
+    readG2: (start: number, end: number) => G2Point[],
+): SRS => {
+    const g1: G1Point[] = []
+    const g2: G2Point[] = []
+
+    return {
+        sizeG1,
+        sizeG2,
+        // If fewer points than depth are read, they are all of the points,
+        // so sizeG1() and sizeG2() are not needed to check the depth
+        g1: (depth: number): G1Point[] => {
+            if (depth > g1.length) {
+                const points = readG1(g1.length, depth)
+                if (g1.length === 0 && points.length > 0 && !G1.eq(points[0], G1.g)) {
+                    throw new InvalidPointError(points[0], 'The first G1 point of the SRS is not the generator')
+                }
+                g1.push(...points)
+            }
+            checkDepth('G1', depth, g1.length)
+            return g1.slice(0, depth)
+        },
+        g2: (depth: number): G2Point[] => {
+            if (depth > g2.length) {
+                const points = readG2(g2.length, depth)
+                if (g2.length === 0 && points.length > 0 && !G2.eq(points[0], G2.g)) {
+                    throw new InvalidPointError(points[0], 'The first G2 point of the SRS is not the generator')
+                }
+                g2.push(...points)
+            }
+            checkDepth('G2', depth, g2.length)
+            return g2.slice(0, depth)
+        },
+    }
+}
+
+/*
+ * @return An SRS which holds the given points in memory.
+ * @param g1Points The G1 points, starting with G1.g.
+ * @param g2Points The G2 points, starting with G2.g.
+ */
+const createSRS = (
+    g1Points: G1Point[],
+    g2Points: G2Point[],
+): SRS => {
+    return genLazySRS(
+        () => g1Points.length,
+        () => g2Points.length,
+        (start, end) => g1Points.slice(start, end),
+        (start, end) => g2Points.slice(start, end),
+    )
+}
+
+/*
+ * @return A HidingSRS which holds the given points in memory.
+ * @param g1Points The G1 points, starting with G1.g.
+ * @param g2Points The G2 points, starting with G2.g.
+ * @param hPoints The points tau^i * H, starting with HIDING_GENERATOR.
+ */
+const createHidingSRS = (
+    g1Points: G1Point[],
+    g2Points: G2Point[],
+    hPoints: G1Point[],
+): HidingSRS => {
+    if (hPoints.length === 0 || !G1.eq(hPoints[0], HIDING_GENERATOR)) {
+        throw new InvalidPointError(hPoints[0], 'The first H point is not HIDING_GENERATOR')
+    }
+    return {
+        ...createSRS(g1Points, g2Points),
+        sizeH: () => hPoints.length,
+        h: (depth: number): G1Point[] => {
+            checkDepth('H', depth, hPoints.length)
+            return hPoints.slice(0, depth)
+        },
+    }
+}
+
+/*
+ * @return True if the SRS is a HidingSRS.
+ */
+const isHidingSRS = (srs: SRS): srs is HidingSRS => {
+    return 'h' in srs
+}
+
+/*
+ * @return A reader of the arrays of hex strings in a JSON file produced by
+ *         convert_ppot.ts. read(start, end) reads and parses the file
+ *         JSON_SRS_CHUNK_BYTES at a time, only until it has end points, and
+ *         size() reads the rest of the file to count them.
+ * @param path The path to the file.
+ * @param length The number of hex strings in each point.
+ */
+const genJsonPointReader = (
+    path: string,
+    length: number,
+) => {
+    const points: string[][] = []
+    const decoder = new StringDecoder('utf8')
+    // The text after the last point parsed
+    let text = ''
+    let bytesRead = 0
+    let isStarted = false
+    let isDone = false
+
+    const invalid = () => new KzgError(`${path} is not a JSON SRS file`)
+
+    // Parses each point in the text, and keeps the text after the last one
+    const parse = () => {
+        let depth = isStarted ? 1 : 0
+        let pointStart = 0
+        let consumed = 0
+        let isInString = false
+        for (let i = 0; i < text.length && !isDone; i ++) {
+            const c = text[i]
+            if (isInString) {
+                if (c === '\\') {
+                    i ++
+                } else if (c === '"') {
+                    isInString = false
+                }
+            } else if (c === '"' && depth === 2) {
+                isInString = true
+            } else if (c === '[' && depth < 2) {
+                depth ++
+                if (depth === 1) {
+                    isStarted = true
+                    consumed = i + 1
+                } else {
+                    pointStart = i
+                }
+            } else if (c === ']' && depth > 0) {
+                depth --
+                if (depth === 1) {
+                    let point: unknown
+                    try {
+                        point = JSON.parse(text.slice(pointStart, i + 1))
+                    } catch (e) {
+                        throw invalid()
+                    }
+                    if (
+                        !Array.isArray(point) || point.length !== length ||
+                        point.some((x) => typeof x !== 'string')
+                    ) {
+                        throw invalid()
+                    }
+                    points.push(point)
+                } else {
+                    isDone = true
+                }
+                consumed = i + 1
+            } else if ((depth < 2 && !/[\s,]/.test(c)) || (depth === 0 && c === ',')) {
+                throw invalid()
+            }
+        }
+        text = text.slice(consumed)
+    }
+
+    const readChunk = () => {
+        const buf = Buffer.alloc(JSON_SRS_CHUNK_BYTES)
+        const fd = fs.openSync(path, 'r')
+        let n: number
+        try {
+            n = fs.readSync(fd, buf, 0, buf.length, bytesRead)
+        } finally {
+            fs.closeSync(fd)
+        }
+        if (n === 0) {
+            throw new KzgError(`Unexpected end of file ${path}`)
+        }
+        bytesRead += n
+        text += decoder.write(buf.slice(0, n))
+        parse()
+    }
+
+    return {
+        read: (start: number, end: number): string[][] => {
+            while (points.length < end && !isDone) {
+                readChunk()
+            }
+            return points.slice(start, end)
+        },
+        size: (): number => {
+            while (!isDone) {
+                readChunk()
+            }
+            return points.length
+        },
+    }
+}
+
+/*
+ * @return An SRS read from the JSON files produced by convert_ppot.ts. The G1
+ *         file holds an array of [x, y] hex strings, and the G2 file holds an
+ *         array of [x.c0, x.c1, y.c0, y.c1] hex strings. Each file is only
+ *         read as far as the points needed, and only when they are first
+ *         needed, but sizeG1() and sizeG2() read the whole file.
+ * @param g1Path The path to the G1 points.
+ * @param g2Path The path to the G2 points.
+ */
+const loadJsonSRS = (
+    g1Path: string,
+    g2Path: string,
+): SRS => {
+    const g1Reader = genJsonPointReader(g1Path, 2)
+    const g2Reader = genJsonPointReader(g2Path, 4)
+
+    return genLazySRS(
+        g1Reader.size,
+        g2Reader.size,
+        (start, end) => g1Reader.read(start, end).map((p) => [
+            BigInt(p[0]),
+            BigInt(p[1]),
+            BigInt(1),
+        ]),
+        (start, end) => g2Reader.read(start, end).map((p) => [
+            [ p[0], p[1] ].map(BigInt),
+            [ p[2], p[3] ].map(BigInt),
+            [ BigInt(1), BigInt(0) ],
+        ]),
+    )
+}
+
+/*
+ * @return length bytes of the file at path, starting at offset.
+ */
+const readFileRange = (
+    path: string,
+    offset: number,
+    length: number,
+): Buffer => {
+    const buf = Buffer.alloc(length)
+    const fd = fs.openSync(path, 'r')
+    try {
+        const bytesRead = fs.readSync(fd, buf, 0, length, offset)
+        if (bytesRead !== length) {
+            throw new KzgError(`Unexpected end of file ${path}`)
+        }
+    } finally {
+        fs.closeSync(fd)
+    }
+    return buf
+}
+
+/*
+ * @return An SRS read from a binary file written by writeBinarySRS(). Only the
+ *         header and the points needed are read from the file. The points are
+ *         not checked to be on the curve or in the subgroup; use a file from
+ *         a trusted source.
+ * @param path The path to the file.
+ */
+const loadBinarySRS = (
+    path: string,
+): SRS => {
+    let header: { sizeG1: number, sizeG2: number } | undefined
+    const getHeader = () => {
+        if (header === undefined) {
+            const data = readFileRange(path, 0, BINARY_SRS_HEADER_BYTES)
+            if (data.slice(0, 4).toString() !== BINARY_SRS_MAGIC) {
+                throw new KzgError(`${path} is not a binary SRS file`)
+            }
+            if (data.readUInt32LE(4) !== BINARY_SRS_VERSION) {
+                throw new KzgError(`${path} has an unsupported version`)
+            }
+            header = {
+                sizeG1: data.readUInt32LE(8),
+                sizeG2: data.readUInt32LE(12),
+            }
+        }
+        return header
+    }
+
+    const readPoints = (
+        offset: number,
+        pointBytes: number,
+        start: number,
+        end: number,
+        deserialize: (data: Buffer) => G1Point | G2Point,
+    ) => {
+        const data = readFileRange(
+            path,
+            offset + start * pointBytes,
+            (end - start) * pointBytes,
+        )
+        const points: (G1Point | G2Point)[] = []
+        for (let i = 0; i < end - start; i ++) {
+            points.push(deserialize(data.slice(i * pointBytes, (i + 1) * pointBytes)))
+        }
+        return points
+    }
+
+    return genLazySRS(
+        () => getHeader().sizeG1,
+        () => getHeader().sizeG2,
+        (start, end) => readPoints(
+            BINARY_SRS_HEADER_BYTES,
+            BINARY_SRS_G1_BYTES,
+            start,
+            Math.min(end, getHeader().sizeG1),
+            (data) => deserializeG1(data, false, false),
+        ),
+        (start, end) => readPoints(
+            BINARY_SRS_HEADER_BYTES + getHeader().sizeG1 * BINARY_SRS_G1_BYTES,
+            BINARY_SRS_G2_BYTES,
+            start,
+            Math.min(end, getHeader().sizeG2),
+            (data) => deserializeG2(data, false, false),
+        ),
+    )
+}
+
+/*
+ * Writes the first depthG1 G1 points and depthG2 G2 points of an SRS to a
+ * binary file which loadBinarySRS() can read. After a 16-byte header, each
+ * point is serialized uncompressed with serializeG1() or serializeG2().
+ * @param path The path to the file.
+ * @param srs The SRS to write.
+ * @param depthG1 The number of G1 points to write. Defaults to all of them.
+ * @param depthG2 The number of G2 points to write. Defaults to all of them.
+ */
+const writeBinarySRS = (
+    path: string,
+    srs: SRS,
+    depthG1: number = srs.sizeG1(),
+    depthG2: number = srs.sizeG2(),
+) => {
+    const header = Buffer.alloc(BINARY_SRS_HEADER_BYTES)
+    header.write(BINARY_SRS_MAGIC, 0)
+    header.writeUInt32LE(BINARY_SRS_VERSION, 4)
+    header.writeUInt32LE(depthG1, 8)
+    header.writeUInt32LE(depthG2, 12)
+
+    const data = [header]
+    for (const point of srs.g1(depthG1)) {
+        data.push(serializeG1(point, false))
+    }
+    for (const point of srs.g2(depthG2)) {
+        data.push(serializeG2(point, false))
+    }
+    fs.writeFileSync(path, Buffer.concat(data))
+}
+
+/*
+ * The default SRS, of up to 65536 points in each group.
+ * These values were taken from challenge file #46 of the Perpetual Powers of
+ * Tau ceremony. The Blake2b hash of challenge file is:
+ *
+ * 939038cd 2dc5a1c0 20f368d2 bfad8686
+ * 950fdf7e c2d2e192 a7d59509 3068816b
+ * becd914b a293dd8a cb6d18c7 b5116b66
+ * ea54d915 d47a89cc fbe2d5a3 444dfbed
+ *
+ * The challenge file can be retrieved at:
+ * https://ppot.blob.core.windows.net/public/challenge_0046
+ *
+ * The ceremony transcript can be retrieved at:
+ * https://github.com/weijiekoh/perpetualpowersoftau
+ *
+ * Anyone can verify the transcript to ensure that the values in the challenge
+ * file have not been tampered with. Moreover, as long as one participant in
+ * the ceremony has discarded their toxic waste, the whole ceremony is secure.
+ * Please read the following for more information:
+ * https://medium.com/coinmonks/announcing-the-perpetual-powers-of-tau-ceremony-to-benefit-all-zk-snark-projects-c3da86af8377
+ */
+const defaultSRS: SRS = loadJsonSRS(
+    require.resolve('@libkzg/taug1_65536.json'),
+    require.resolve('@libkzg/taug2_65536.json'),
+)
+
+export {
+    SRS,
+    HidingSRS,
+    HIDING_GENERATOR,
+    createSRS,
+    createHidingSRS,
+    isHidingSRS,
+    loadJsonSRS,
+    loadBinarySRS,
+    writeBinarySRS,
+    defaultSRS,
+}
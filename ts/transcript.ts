@@ -0,0 +1,145 @@
+import * as assert from 'assert'
+import * as ffjavascript from 'ffjavascript'
+import { ec } from 'elliptic'
+import { keccak256 } from 'js-sha3'
+import { InvalidFieldElementError } from './errors'
+
+const G1 = ffjavascript.bn128.G1
+const G2 = ffjavascript.bn128.G2
+
+type G1Point = ec
+type G2Point = ec
+
+// The BN254 scalar field, which is the same as FIELD_SIZE in index.ts
+const SCALAR_FIELD_SIZE: bigint = ffjavascript.bn128.r
+
+// The word absorbed by squeezeChallenge(), which is not a field element, so a
+// squeeze differs from absorbLabel() and absorbFieldElement() with any label
+const SQUEEZE_TAG: bigint = (BigInt(1) << BigInt(256)) - BigInt(1)
+
+/*
+ * @return The 32-byte big-endian representation of a value.
+ */
+const toWord = (value: bigint): Buffer => {
+    assert(value >= BigInt(0))
+    const hex = value.toString(16)
+    assert(hex.length <= 64)
+    return Buffer.from(hex.padStart(64, '0'), 'hex')
+}
+
+/*
+ * @return The Keccak-256 hash of the given bytes.
+ */
+const hash = (data: Buffer): Buffer => {
+    return Buffer.from(keccak256.arrayBuffer(data))
+}
+
+/*
+ * A Fiat-Shamir transcript which uses Keccak-256. Each absorbed value is
+ * hashed into a 32-byte state along with the hash of a label, so values
+ * which are absorbed under different labels or in a different order produce
+ * different challenges. Every step can be recomputed in Solidity:
+ *
+ *     state = keccak256(abi.encodePacked(domainSeparator))
+ *     // absorbFieldElement(label, x)
+ *     state = keccak256(abi.encodePacked(state, keccak256(label), x))
+ *     // absorbG1(label, p)
+ *     state = keccak256(abi.encodePacked(state, keccak256(label), p.X, p.Y))
+ *     // absorbG2(label, p), with p in the order used by the EIP-197 precompile
+ *     state = keccak256(abi.encodePacked(state, keccak256(label), p.X[0], p.X[1], p.Y[0], p.Y[1]))
+ *     // absorbLabel(label)
+ *     state = keccak256(abi.encodePacked(state, keccak256(label)))
+ *     // squeezeChallenge(label)
+ *     state = keccak256(abi.encodePacked(state, keccak256(label), type(uint256).max))
+ *     challenge = uint256(state) % BABYJUB_P
+ *
+ * The point at infinity is absorbed as (0, 0), as in the EIP-196 and EIP-197
+ * precompiles.
+ */
+class Transcript {
+    private state: Buffer
+
+    /*
+     * @param domainSeparator A string which is unique to the protocol which
+     *                        uses this transcript.
+     */
+    constructor(domainSeparator: string) {
+        this.state = hash(Buffer.from(domainSeparator, 'utf8'))
+    }
+
+    private absorb(label: string, words: bigint[]) {
+        const data = [
+            this.state,
+            hash(Buffer.from(label, 'utf8')),
+            ...words.map(toWord),
+        ]
+        this.state = hash(Buffer.concat(data))
+    }
+
+    /*
+     * Absorbs a label without any data, for instance to mark the start of a
+     * round of a protocol.
+     */
+    public absorbLabel(label: string) {
+        this.absorb(label, [])
+    }
+
+    /*
+     * Absorbs an element of the BN254 scalar field. Throws an
+     * InvalidFieldElementError if it is not one.
+     * @param value A value less than FIELD_SIZE.
+     */
+    public absorbFieldElement(label: string, value: bigint) {
+        value = BigInt(value)
+        if (value < BigInt(0) || value >= SCALAR_FIELD_SIZE) {
+            throw new InvalidFieldElementError(value, SCALAR_FIELD_SIZE)
+        }
+        this.absorb(label, [value])
+    }
+
+    /*
+     * Absorbs a G1 point, such as a Commitment or a Proof.
+     */
+    public absorbG1(label: string, point: G1Point) {
+        if (G1.eq(point, G1.zero)) {
+            this.absorb(label, [BigInt(0), BigInt(0)])
+            return
+        }
+        const affine = G1.affine(point)
+        this.absorb(label, [affine[0], affine[1]])
+    }
+
+    /*
+     * Absorbs a G2 point, such as a MultiProof.
+     */
+    public absorbG2(label: string, point: G2Point) {
+        if (G2.eq(point, G2.zero)) {
+            this.absorb(label, [BigInt(0), BigInt(0), BigInt(0), BigInt(0)])
+            return
+        }
+        const affine = G2.affine(point)
+
+        // Note the order of the G2 point coefficients
+        this.absorb(label, [
+            affine[0][1],
+            affine[0][0],
+            affine[1][1],
+            affine[1][0],
+        ])
+    }
+
+    /*
+     * @return A challenge derived from everything absorbed so far, reduced
+     *         modulo FIELD_SIZE. Squeezing updates the state, so subsequent
+     *         challenges differ. As on-chain, the reduction is slightly
+     *         biased, since 2^256 is not a multiple of FIELD_SIZE.
+     */
+    public squeezeChallenge(label: string): bigint {
+        this.absorb(label, [SQUEEZE_TAG])
+        return BigInt('0x' + this.state.toString('hex')) % SCALAR_FIELD_SIZE
+    }
+}
+
+export {
+    Transcript,
+}
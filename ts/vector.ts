@@ -0,0 +1,190 @@
+import {
+    FIELD_SIZE,
+    SRS,
+    defaultSRS,
+    Commitment,
+    Proof,
+    MultiProof,
+    ProofScheme,
+    toFieldElement,
+    genCoefficients,
+    commit,
+    genProof,
+    genMultiProof,
+    verify,
+    verifyMulti,
+    updateCommitment,
+} from './'
+import { InvalidArgumentError } from './errors'
+
+/*
+ * A proof that a vector holds values[i] at indices[i]. If scheme is 'kzg',
+ * there is one index and the proof is from genProof(). If it is 'kzg-multi',
+ * the proof is from genMultiProof().
+ */
+interface VectorOpening {
+    scheme: ProofScheme;
+    indices: number[];
+    values: bigint[];
+    proof: Proof | MultiProof;
+}
+
+/*
+ * A vector commitment to a list of field elements, in which the value at
+ * index i is the evaluation of the committed polynominal at x = i. The
+ * commitment is kept in sync as values are updated, and the coefficients of
+ * the polynominal are only interpolated again when a proof is needed.
+ */
+class KZGVector {
+    // The commitment to the vector, which update() keeps in sync
+    public commitment: Commitment
+    // The number of values in the vector
+    public readonly length: number
+    private values: bigint[]
+    private coefficients: bigint[] | undefined
+    private srs: SRS
+
+    /*
+     * @param values The values of the vector. Each is reduced modulo
+     *               FIELD_SIZE.
+     * @param srs The structured reference string. Defaults to defaultSRS.
+     */
+    constructor(values: (bigint | number)[], srs: SRS = defaultSRS) {
+        if (values.length === 0) {
+            throw new InvalidArgumentError('values', 'A vector needs at least one value')
+        }
+        this.values = values.map((v) => toFieldElement(v))
+        this.length = values.length
+        this.srs = srs
+        this.coefficients = genCoefficients(this.values)
+        this.commitment = commit(this.coefficients, srs)
+    }
+
+    /*
+     * @return The value at index i.
+     */
+    public get(i: number): bigint {
+        this.checkIndex(i)
+        return this.values[i]
+    }
+
+    /*
+     * @return A copy of the values of the vector.
+     */
+    public toArray(): bigint[] {
+        return this.values.slice()
+    }
+
+    /*
+     * @return A proof of the value at index i.
+     */
+    public open(i: number): VectorOpening {
+        this.checkIndex(i)
+        return {
+            scheme: 'kzg',
+            indices: [i],
+            values: [this.values[i]],
+            proof: genProof(this.getCoefficients(), i, FIELD_SIZE, undefined, this.srs),
+        }
+    }
+
+    /*
+     * @return One proof of the values at each of the given indices, from
+     *         genMultiProof(). There must be fewer indices than values.
+     */
+    public openMany(indices: number[]): VectorOpening {
+        if (indices.length === 0) {
+            throw new InvalidArgumentError('indices', 'At least one index is needed')
+        }
+        if (new Set(indices).size !== indices.length) {
+            throw new InvalidArgumentError('indices', 'The indices must be distinct')
+        }
+        for (const i of indices) {
+            this.checkIndex(i)
+        }
+        return {
+            scheme: 'kzg-multi',
+            indices: indices.slice(),
+            values: indices.map((i) => this.values[i]),
+            proof: genMultiProof(
+                this.getCoefficients(),
+                indices,
+                FIELD_SIZE,
+                undefined,
+                this.srs,
+            ),
+        }
+    }
+
+    /*
+     * Sets the value at index i, and updates the commitment with
+     * updateCommitment() rather than committing to the vector again.
+     * @param value The new value, which is reduced modulo FIELD_SIZE.
+     */
+    public update(i: number, value: bigint | number) {
+        this.checkIndex(i)
+        const newValue = toFieldElement(value)
+        this.commitment = updateCommitment(
+            this.commitment,
+            i,
+            this.values[i],
+            newValue,
+            this.length,
+            this.srs,
+        )
+        this.values[i] = newValue
+        this.coefficients = undefined
+    }
+
+    /*
+     * Returns true if the opening from open() or openMany() is valid for the
+     * commitment, and false otherwise.
+     * @param commitment The commitment to the vector.
+     * @param opening The opening to check.
+     * @param srs The structured reference string. Defaults to defaultSRS.
+     */
+    public static verifyOpening(
+        commitment: Commitment,
+        opening: VectorOpening,
+        srs: SRS = defaultSRS,
+    ): boolean {
+        const { scheme, indices, values, proof } = opening
+        if (indices.length === 0 || indices.length !== values.length) {
+            return false
+        }
+        if (scheme === 'kzg') {
+            return indices.length === 1 &&
+                verify(commitment, proof as Proof, indices[0], values[0], FIELD_SIZE, undefined, srs)
+        }
+        return verifyMulti(
+            commitment,
+            proof as MultiProof,
+            indices,
+            values,
+            FIELD_SIZE,
+            undefined,
+            srs,
+        )
+    }
+
+    private getCoefficients(): bigint[] {
+        if (this.coefficients === undefined) {
+            this.coefficients = genCoefficients(this.values)
+        }
+        return this.coefficients
+    }
+
+    private checkIndex(i: number) {
+        if (!Number.isSafeInteger(i) || i < 0 || i >= this.length) {
+            throw new InvalidArgumentError(
+                'index',
+                `The index ${i} is outside of the vector of length ${this.length}`,
+            )
+        }
+    }
+}
+
+export {
+    KZGVector,
+    VectorOpening,
+}
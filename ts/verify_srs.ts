@@ -0,0 +1,80 @@
+import * as argparse from 'argparse'
+import {
+    checkSRS,
+    defaultSRS,
+    loadJsonSRS,
+    loadBinarySRS,
+} from './'
+
+if (require.main === module) {
+    const parser = new argparse.ArgumentParser({
+        description: 'Check that an SRS is well formed. By default, the SRS ' +
+            'which comes with this package is checked.',
+    })
+
+    parser.addArgument(
+        ['--g1'],
+        {
+            action: 'store',
+            help: 'The JSON file of G1 points, as written by convert_ppot.ts',
+        },
+    )
+
+    parser.addArgument(
+        ['--g2'],
+        {
+            action: 'store',
+            help: 'The JSON file of G2 points, as written by convert_ppot.ts',
+        },
+    )
+
+    parser.addArgument(
+        ['-b', '--binary'],
+        {
+            action: 'store',
+            help: 'A binary file written by writeBinarySRS()',
+        },
+    )
+
+    parser.addArgument(
+        ['-n', '--depth-g1'],
+        {
+            action: 'store',
+            type: 'int',
+            help: 'The number of G1 points to check. Defaults to all of them.',
+        },
+    )
+
+    parser.addArgument(
+        ['-m', '--depth-g2'],
+        {
+            action: 'store',
+            type: 'int',
+            help: 'The number of G2 points to check. Defaults to all of them.',
+        },
+    )
+
+    const args = parser.parseArgs()
+
+    let srs = defaultSRS
+    if (args.binary) {
+        srs = loadBinarySRS(args.binary)
+    } else if (args.g1 || args.g2) {
+        if (!args.g1 || !args.g2) {
+            console.error('Both --g1 and --g2 must be provided. Exiting.')
+            process.exit(1)
+        }
+        srs = loadJsonSRS(args.g1, args.g2)
+    }
+
+    const depthG1 = args.depth_g1 === null ? srs.sizeG1() : args.depth_g1
+    const depthG2 = args.depth_g2 === null ? srs.sizeG2() : args.depth_g2
+    console.log(`Checking ${depthG1} G1 points and ${depthG2} G2 points...`)
+
+    const error = checkSRS(srs, depthG1, depthG2)
+    if (error !== undefined) {
+        console.error(`The SRS is invalid: ${error}`)
+        process.exit(1)
+    }
+    console.log('The SRS is valid')
+}
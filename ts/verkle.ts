@@ -0,0 +1,382 @@
+import * as ffjavascript from 'ffjavascript'
+import { keccak256 } from 'js-sha3'
+import {
+    FIELD_SIZE,
+    MAX_G1_SOL_POINTS,
+    SRS,
+    defaultSRS,
+    Commitment,
+    MultiProof,
+    toFieldElement,
+    verifyMulti,
+    genMultiVerifierContractParams,
+} from './'
+import { KZGVector } from './vector'
+import { InvalidArgumentError } from './errors'
+
+const G1 = ffjavascript.bn128.G1
+
+/*
+ * A node of a VerkleTree. Its vector holds, at each index, the
+ * encodeLeafValue() of the value of a leaf, or hashCommitment() of the
+ * commitment to a child node. Empty indices hold 0.
+ */
+interface VerkleNode {
+    vector: KZGVector;
+    // The child nodes of an internal node. Leaves have none.
+    children?: (VerkleNode | undefined)[];
+}
+
+/*
+ * A proof that a VerkleTree holds a value at a key. The i-th proof opens the
+ * i-th node on the path from the root at the i-th digit of the key, which is
+ * the hash of the commitment to the next node, or the value at the leaf.
+ */
+interface VerkleProof {
+    key: bigint;
+    value: bigint;
+    // The commitments to the nodes on the path, except the root
+    commitments: Commitment[];
+    // One proof per level, from genMultiProof()
+    proofs: MultiProof[];
+}
+
+/*
+ * @return The 32-byte big-endian representation of a value.
+ */
+const toWord = (value: bigint): Buffer => {
+    return Buffer.from(value.toString(16).padStart(64, '0'), 'hex')
+}
+
+/*
+ * @return A commitment mapped into the field, so that it can be a value of
+ *         its parent node. This is the same as the following Solidity, where
+ *         the point at infinity is (0, 0):
+ *         uint256(keccak256(abi.encodePacked(c.X, c.Y))) % BABYJUB_P
+ * @param commitment The commitment to a node.
+ */
+const hashCommitment = (commitment: Commitment): bigint => {
+    let x = BigInt(0)
+    let y = BigInt(0)
+    if (!G1.eq(commitment, G1.zero)) {
+        const affine = G1.affine(commitment)
+        x = BigInt(affine[0])
+        y = BigInt(affine[1])
+    }
+    const digest = keccak256(Buffer.concat([toWord(x), toWord(y)]))
+    return BigInt('0x' + digest) % FIELD_SIZE
+}
+
+/*
+ * @return The value which a leaf holds for the given value, which is the
+ *         value plus 1, so that a key which is not in the tree, whose leaf
+ *         holds 0, cannot be proven to hold any value. The result is 0 only
+ *         for FIELD_SIZE - 1, which a tree cannot hold.
+ */
+const encodeLeafValue = (value: bigint | number): bigint => {
+    return toFieldElement(toFieldElement(value) + BigInt(1))
+}
+
+/*
+ * Throws an InvalidArgumentError if the width or depth of a tree is invalid.
+ */
+const checkShape = (width: number, depth: number) => {
+    if (!Number.isSafeInteger(width) || width < 2 || width > MAX_G1_SOL_POINTS) {
+        throw new InvalidArgumentError(
+            'width',
+            `The width must be an integer from 2 to ${MAX_G1_SOL_POINTS}, but it is ${width}`,
+        )
+    }
+    if (!Number.isSafeInteger(depth) || depth < 1) {
+        throw new InvalidArgumentError('depth', `The depth must be a positive integer, but it is ${depth}`)
+    }
+}
+
+/*
+ * @return The digits of a key in base width, most significant first, which
+ *         are the indices of the nodes on its path from the root. Returns
+ *         undefined if the key is negative or has more than depth digits.
+ */
+const genPath = (
+    key: bigint,
+    width: number,
+    depth: number,
+): number[] | undefined => {
+    if (key < BigInt(0)) {
+        return undefined
+    }
+    const path: number[] = []
+    for (let i = 0; i < depth; i ++) {
+        path.unshift(Number(key % BigInt(width)))
+        key /= BigInt(width)
+    }
+    return key === BigInt(0) ? path : undefined
+}
+
+/*
+ * A Verkle tree of a fixed width and depth, in which each node is a
+ * KZGVector. A key is a number less than width ** depth, whose digits in base
+ * width are the path from the root to its value.
+ */
+class VerkleTree {
+    public readonly width: number
+    public readonly depth: number
+    // The commitment to the root node
+    public root: Commitment
+    private rootNode: VerkleNode
+    private keys: Set<bigint>
+    private srs: SRS
+
+    /*
+     * @param width The number of children of each node, up to the 128
+     *              coefficients which the verifier contract supports.
+     * @param depth The number of levels of nodes.
+     * @param srs The structured reference string. Defaults to defaultSRS.
+     */
+    constructor(width: number, depth: number, srs: SRS = defaultSRS) {
+        checkShape(width, depth)
+        this.width = width
+        this.depth = depth
+        this.srs = srs
+        this.keys = new Set()
+        this.rootNode = this.genNode(depth === 1)
+        this.root = this.rootNode.vector.commitment
+    }
+
+    /*
+     * @return True if the tree holds a value at the key.
+     */
+    public has(key: bigint | number): boolean {
+        return this.keys.has(this.checkKey(key))
+    }
+
+    /*
+     * @return The value at the key, or undefined if there is none.
+     */
+    public get(key: bigint | number): bigint | undefined {
+        const k = this.checkKey(key)
+        if (!this.keys.has(k)) {
+            return undefined
+        }
+        const nodes = this.getNodes(k)
+        const leaf = nodes[nodes.length - 1].vector.get(this.getPath(k)[this.depth - 1])
+        return toFieldElement(leaf - BigInt(1))
+    }
+
+    /*
+     * Adds a value at a key. Throws an InvalidArgumentError if the tree
+     * already holds a value at the key, or if the value is FIELD_SIZE - 1.
+     */
+    public insert(key: bigint | number, value: bigint | number) {
+        const k = this.checkKey(key)
+        if (this.keys.has(k)) {
+            throw new InvalidArgumentError('key', `The key ${k} is already in the tree`)
+        }
+        this.setValue(k, value)
+        this.keys.add(k)
+    }
+
+    /*
+     * Changes the value at a key. Throws an InvalidArgumentError if the tree
+     * does not hold a value at the key, or if the value is FIELD_SIZE - 1.
+     */
+    public update(key: bigint | number, value: bigint | number) {
+        const k = this.checkKey(key)
+        if (!this.keys.has(k)) {
+            throw new InvalidArgumentError('key', `The key ${k} is not in the tree`)
+        }
+        this.setValue(k, value)
+    }
+
+    /*
+     * @return A proof that the tree holds the value at the key, which
+     *         verifyVerkleProof() checks against the root. Throws an
+     *         InvalidArgumentError if the tree does not hold a value at the
+     *         key.
+     */
+    public genProof(key: bigint | number): VerkleProof {
+        const k = this.checkKey(key)
+        if (!this.keys.has(k)) {
+            throw new InvalidArgumentError('key', `The key ${k} is not in the tree`)
+        }
+        const path = this.getPath(k)
+        const nodes = this.getNodes(k)
+        const openings = nodes.map((node, i) => node.vector.openMany([path[i]]))
+
+        return {
+            key: k,
+            value: toFieldElement(openings[openings.length - 1].values[0] - BigInt(1)),
+            commitments: nodes.slice(1).map((node) => node.vector.commitment),
+            proofs: openings.map((opening) => opening.proof as MultiProof),
+        }
+    }
+
+    private genNode(isLeaf: boolean): VerkleNode {
+        const zeros = new Array(this.width).fill(BigInt(0))
+        const node: VerkleNode = { vector: new KZGVector(zeros, this.srs) }
+        if (!isLeaf) {
+            node.children = new Array(this.width).fill(undefined)
+        }
+        return node
+    }
+
+    /*
+     * Sets the value at the leaf, creating nodes on the path if needed, and
+     * updates each node above it from the bottom up.
+     */
+    private setValue(key: bigint, value: bigint | number) {
+        const leafValue = encodeLeafValue(value)
+        if (leafValue === BigInt(0)) {
+            throw new InvalidArgumentError('value', 'A tree cannot hold the value FIELD_SIZE - 1')
+        }
+
+        const path = this.getPath(key)
+        const nodes = [this.rootNode]
+        for (let i = 0; i < this.depth - 1; i ++) {
+            const children = nodes[i].children as (VerkleNode | undefined)[]
+            if (children[path[i]] === undefined) {
+                children[path[i]] = this.genNode(i === this.depth - 2)
+            }
+            nodes.push(children[path[i]] as VerkleNode)
+        }
+
+        nodes[this.depth - 1].vector.update(path[this.depth - 1], leafValue)
+        for (let i = this.depth - 2; i >= 0; i --) {
+            nodes[i].vector.update(path[i], hashCommitment(nodes[i + 1].vector.commitment))
+        }
+        this.root = this.rootNode.vector.commitment
+    }
+
+    /*
+     * @return The nodes on the path of a key which is in the tree.
+     */
+    private getNodes(key: bigint): VerkleNode[] {
+        const path = this.getPath(key)
+        const nodes = [this.rootNode]
+        for (let i = 0; i < this.depth - 1; i ++) {
+            const children = nodes[i].children as (VerkleNode | undefined)[]
+            nodes.push(children[path[i]] as VerkleNode)
+        }
+        return nodes
+    }
+
+    private getPath(key: bigint): number[] {
+        return genPath(key, this.width, this.depth) as number[]
+    }
+
+    private checkKey(key: bigint | number): bigint {
+        const k = BigInt(key)
+        if (genPath(k, this.width, this.depth) === undefined) {
+            throw new InvalidArgumentError(
+                'key',
+                `The key ${k} is outside of a tree of width ${this.width} and depth ${this.depth}`,
+            )
+        }
+        return k
+    }
+}
+
+/*
+ * @return The commitment and value which the proof opens at each level, from
+ *         the root down, or undefined if the proof does not have one opening
+ *         per level of a tree of the given depth. The depth must come from
+ *         the verifier, as a shorter proof could otherwise open an internal
+ *         node as if it were a leaf. The value at the leaf is
+ *         encodeLeafValue(proof.value), and a proof of FIELD_SIZE - 1, which
+ *         would open an empty leaf, is also rejected.
+ */
+const genVerkleOpenings = (
+    root: Commitment,
+    proof: VerkleProof,
+    width: number,
+    depth: number,
+) => {
+    checkShape(width, depth)
+    if (proof.proofs.length !== depth || proof.commitments.length !== depth - 1) {
+        return undefined
+    }
+    const path = genPath(BigInt(proof.key), width, depth)
+    const leafValue = encodeLeafValue(proof.value)
+    if (path === undefined || leafValue === BigInt(0)) {
+        return undefined
+    }
+
+    const commitments = [root, ...proof.commitments]
+    return commitments.map((commitment, i) => {
+        return {
+            commitment,
+            proof: proof.proofs[i],
+            index: path[i],
+            value: i < depth - 1 ? hashCommitment(commitments[i + 1]) : leafValue,
+        }
+    })
+}
+
+/*
+ * Returns true if the proof shows that the tree with the given root holds
+ * proof.value at proof.key, and false otherwise. There is no valid proof for
+ * a key which is not in the tree.
+ * @param root The commitment to the root node.
+ * @param proof The proof from VerkleTree.genProof().
+ * @param width The width of the tree.
+ * @param depth The depth of the tree. A proof with a different number of
+ *              levels is rejected.
+ * @param srs The structured reference string. Defaults to defaultSRS.
+ */
+const verifyVerkleProof = (
+    root: Commitment,
+    proof: VerkleProof,
+    width: number,
+    depth: number,
+    srs: SRS = defaultSRS,
+): boolean => {
+    const openings = genVerkleOpenings(root, proof, width, depth)
+    if (openings === undefined) {
+        return false
+    }
+    for (const o of openings) {
+        if (!verifyMulti(o.commitment, o.proof, [o.index], [o.value], FIELD_SIZE, undefined, srs)) {
+            return false
+        }
+    }
+    return true
+}
+
+/*
+ * @return The parameters to one call of the verifier contract's
+ *         verifyMulti() function per level of the proof, from the root down.
+ *         The contract does not hash commitments, so the caller must also
+ *         check that the value at each level but the last is the
+ *         hashCommitment() of the next commitment, and that the value at the
+ *         leaf is the value of the key plus 1, which is not 0.
+ * @param root The commitment to the root node.
+ * @param proof The proof from VerkleTree.genProof().
+ * @param width The width of the tree.
+ * @param depth The depth of the tree.
+ */
+const genVerkleVerifierContractParams = (
+    root: Commitment,
+    proof: VerkleProof,
+    width: number,
+    depth: number,
+) => {
+    const openings = genVerkleOpenings(root, proof, width, depth)
+    if (openings === undefined) {
+        throw new InvalidArgumentError('proof', `The proof does not have one opening per level of a tree of depth ${depth}, or its key or value is out of range`)
+    }
+    return openings.map((o) => genMultiVerifierContractParams(
+        o.commitment,
+        o.proof,
+        [o.index],
+        [o.value],
+    ))
+}
+
+export {
+    VerkleTree,
+    VerkleProof,
+    hashCommitment,
+    encodeLeafValue,
+    verifyVerkleProof,
+    genVerkleVerifierContractParams,
+}